@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { loadEnv, type Plugin } from 'vite';
+
+type RouteHandler = (request: Request) => Promise<Response>;
+
+// Serves the /api routes from the Vite dev server so `npm run dev` behaves
+// like the Vercel deployment. Keys are read from the non-VITE_ variables in
+// .env, which Vite never exposes to the browser bundle.
+export const apiDevServer = (): Plugin => ({
+  name: 'song-lens-api-dev-server',
+  apply: 'serve',
+  config(_, { mode }) {
+    const env = loadEnv(mode, process.cwd(), '');
+    for (const [name, value] of Object.entries(env)) {
+      process.env[name] ??= value;
+    }
+  },
+  configureServer(server) {
+    server.middlewares.use('/api', async (req, res, next) => {
+      const url = new URL(req.originalUrl ?? req.url ?? '/', `http://${req.headers.host}`);
+      // Mirror Vercel: only files under api/ are routes, and `_` paths are private.
+      if (!url.pathname.startsWith('/api/') || url.pathname.includes('/_')) return next();
+
+      const routeFile = path.join(server.config.root, `${url.pathname}.ts`);
+      if (!fs.existsSync(routeFile)) return next();
+
+      try {
+        const route = await server.ssrLoadModule(routeFile);
+        const handler = route.default as RouteHandler;
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (value !== undefined) headers.set(name, String(value));
+        }
+        const response = await handler(new Request(url, { method: req.method, headers }));
+
+        res.statusCode = response.status;
+        response.headers.forEach((value, name) => res.setHeader(name, value));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch (error) {
+        next(error);
+      }
+    });
+  },
+});
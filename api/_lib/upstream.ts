@@ -0,0 +1,140 @@
+// Shared helpers for the serverless routes under /api. Files in `_lib` are not
+// deployed as routes themselves.
+
+// Overridable so the routes can run against the local mock server (npm run mock)
+const getYouTubeApiBase = () => process.env.YOUTUBE_API_BASE_URL || 'https://www.googleapis.com/youtube/v3';
+const getLastFmApiBase = () => process.env.LASTFM_API_BASE_URL || 'https://ws.audioscrobbler.com/2.0/';
+
+// `reason` mirrors the YouTube error format so the browser can classify
+// proxy errors (e.g. a missing key) the same way as upstream ones.
+export const jsonError = (status: number, message: string, reason?: string): Response =>
+  Response.json({ error: { code: status, message, reason } }, { status });
+
+// Copy only the whitelisted query params so the routes can't be used as an
+// open proxy for arbitrary upstream calls on our keys.
+export const pickParams = (source: URLSearchParams, allowed: readonly string[]): URLSearchParams => {
+  const params = new URLSearchParams();
+  for (const name of allowed) {
+    const value = source.get(name);
+    if (value !== null) params.set(name, value);
+  }
+  return params;
+};
+
+const forward = async (url: string): Promise<Response> => {
+  try {
+    const upstream = await fetch(url);
+    return new Response(await upstream.text(), {
+      status: upstream.status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Upstream request failed:', error);
+    return jsonError(502, 'Upstream request failed', 'backendError');
+  }
+};
+
+// YOUTUBE_API_KEYS holds a comma-separated pool of keys; the browser's quota
+// accountant picks which one to spend by index via the X-YouTube-Key-Slot header.
+const getYouTubeKeys = (): string[] =>
+  (process.env.YOUTUBE_API_KEYS ?? process.env.YOUTUBE_API_KEY ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+export const getYouTubeKeyPoolSize = (): number => getYouTubeKeys().length;
+
+// Units per call, matching YOUTUBE_QUOTA_COSTS in src/lib/quota.ts
+const YOUTUBE_QUOTA_COSTS: Record<string, number> = {
+  videos: 1,
+  playlistItems: 1,
+  search: 100,
+};
+
+export interface YouTubeQuotaUsage {
+  // Quota day in Pacific time, when YouTube resets quota
+  day: string;
+  // Units forwarded per pooled key
+  spent: number[];
+  // Slots YouTube has answered with quotaExceeded today
+  exhausted: number[];
+}
+
+// Usage of the pooled keys is counted here and reported by GET /api/config,
+// so browsers budget against more than their own calls. The count lives in
+// memory per server instance: instances don't share it and a cold start
+// counts from zero, so it is an estimate. Quota errors from YouTube stay the
+// final word.
+let quotaUsage: YouTubeQuotaUsage = { day: '', spent: [], exhausted: [] };
+
+const getQuotaDay = () =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(new Date());
+
+const getTodaysUsage = (): YouTubeQuotaUsage => {
+  const day = getQuotaDay();
+  if (quotaUsage.day !== day) quotaUsage = { day, spent: [], exhausted: [] };
+  return quotaUsage;
+};
+
+export const getYouTubeQuotaUsage = (): YouTubeQuotaUsage => {
+  const usage = getTodaysUsage();
+  return {
+    day: usage.day,
+    spent: getYouTubeKeys().map((_key, slot) => usage.spent[slot] ?? 0),
+    exhausted: [...usage.exhausted],
+  };
+};
+
+const isQuotaExceeded = async (response: Response) =>
+  response.status === 403 && (await response.clone().text()).includes('quotaExceeded');
+
+export const getYouTubeKeySlot = (request: Request): number => {
+  const slot = Number(request.headers.get('X-YouTube-Key-Slot'));
+  return Number.isInteger(slot) && slot >= 0 ? slot : 0;
+};
+
+// Keys users bring themselves (stored in their browser, see Settings) arrive
+// in these headers and take precedence over the server's own.
+const USER_KEY_HEADERS = {
+  youtube: 'X-YouTube-Api-Key',
+  lastfm: 'X-LastFm-Api-Key',
+};
+
+export const getUserApiKey = (request: Request, service: keyof typeof USER_KEY_HEADERS): string | undefined =>
+  request.headers.get(USER_KEY_HEADERS[service])?.trim() || undefined;
+
+export const forwardToYouTube = async (
+  resource: string,
+  params: URLSearchParams,
+  keySlot = 0,
+  userKey?: string
+): Promise<Response> => {
+  if (userKey) {
+    params.set('key', userKey);
+    return forward(`${getYouTubeApiBase()}/${resource}?${params}`);
+  }
+
+  const keys = getYouTubeKeys();
+  if (keys.length === 0) return jsonError(500, 'YOUTUBE_API_KEYS is not configured', 'keyMissing');
+
+  const slot = keySlot % keys.length;
+  const usage = getTodaysUsage();
+  usage.spent[slot] = (usage.spent[slot] ?? 0) + (YOUTUBE_QUOTA_COSTS[resource] ?? 0);
+
+  params.set('key', keys[slot]);
+  const response = await forward(`${getYouTubeApiBase()}/${resource}?${params}`);
+  if (!usage.exhausted.includes(slot) && (await isQuotaExceeded(response))) usage.exhausted.push(slot);
+  return response;
+};
+
+export const forwardToLastFm = (params: URLSearchParams, userKey?: string): Promise<Response> => {
+  const key = userKey ?? process.env.LASTFM_API_KEY;
+  if (!key) return Promise.resolve(jsonError(500, 'LASTFM_API_KEY is not configured', 'keyMissing'));
+
+  params.set('api_key', key);
+  params.set('format', 'json');
+  return forward(`${getLastFmApiBase()}?${params}`);
+};
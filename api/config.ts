@@ -0,0 +1,15 @@
+import { getYouTubeKeyPoolSize, getYouTubeQuotaUsage, jsonError } from './_lib/upstream';
+
+export const config = { runtime: 'edge' };
+
+// GET /api/config — what the browser needs to know about the server setup,
+// without revealing any keys. Includes today's usage of the pooled YouTube
+// keys, so polled by the quota accountant.
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method !== 'GET') return jsonError(405, 'Method not allowed');
+
+  return Response.json(
+    { youtubeKeyPoolSize: getYouTubeKeyPoolSize(), youtubeQuota: getYouTubeQuotaUsage() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
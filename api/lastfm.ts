@@ -0,0 +1,30 @@
+import { forwardToLastFm, getUserApiKey, jsonError, pickParams } from './_lib/upstream';
+
+export const config = { runtime: 'edge' };
+
+// Last.fm method names are case-insensitive, so compare lowercased.
+const ALLOWED_METHODS = [
+  'track.search',
+  'track.getsimilar',
+  'track.getinfo',
+  'track.gettoptags',
+  'artist.gettoptracks',
+  'artist.gettoptags',
+  'artist.getsimilar',
+];
+
+// GET /api/lastfm?method=track.search&track=...&artist=...
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method !== 'GET') return jsonError(405, 'Method not allowed');
+
+  const { searchParams } = new URL(request.url);
+  const method = searchParams.get('method')?.toLowerCase();
+  if (!method || !ALLOWED_METHODS.includes(method)) {
+    return jsonError(400, 'Unsupported Last.fm method');
+  }
+
+  return forwardToLastFm(
+    pickParams(searchParams, ['method', 'track', 'artist', 'limit', 'autocorrect']),
+    getUserApiKey(request, 'lastfm')
+  );
+}
@@ -0,0 +1,18 @@
+import { forwardToYouTube, getUserApiKey, getYouTubeKeySlot, jsonError, pickParams } from '../_lib/upstream';
+
+export const config = { runtime: 'edge' };
+
+// GET /api/youtube/playlistItems?playlistId=...&part=snippet&maxResults=50&pageToken=...
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method !== 'GET') return jsonError(405, 'Method not allowed');
+
+  const { searchParams } = new URL(request.url);
+  if (!searchParams.get('playlistId')) return jsonError(400, 'Missing "playlistId" parameter');
+
+  return forwardToYouTube(
+    'playlistItems',
+    pickParams(searchParams, ['playlistId', 'part', 'maxResults', 'pageToken']),
+    getYouTubeKeySlot(request),
+    getUserApiKey(request, 'youtube')
+  );
+}
@@ -0,0 +1,18 @@
+import { forwardToYouTube, getUserApiKey, getYouTubeKeySlot, jsonError, pickParams } from '../_lib/upstream';
+
+export const config = { runtime: 'edge' };
+
+// GET /api/youtube/search?q=...&part=snippet&type=video&maxResults=1
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method !== 'GET') return jsonError(405, 'Method not allowed');
+
+  const { searchParams } = new URL(request.url);
+  if (!searchParams.get('q')) return jsonError(400, 'Missing "q" parameter');
+
+  return forwardToYouTube(
+    'search',
+    pickParams(searchParams, ['q', 'part', 'type', 'videoCategoryId', 'maxResults']),
+    getYouTubeKeySlot(request),
+    getUserApiKey(request, 'youtube')
+  );
+}
@@ -0,0 +1,18 @@
+import { forwardToYouTube, getUserApiKey, getYouTubeKeySlot, jsonError, pickParams } from '../_lib/upstream';
+
+export const config = { runtime: 'edge' };
+
+// GET /api/youtube/videos?id=...&part=snippet
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method !== 'GET') return jsonError(405, 'Method not allowed');
+
+  const { searchParams } = new URL(request.url);
+  if (!searchParams.get('id')) return jsonError(400, 'Missing "id" parameter');
+
+  return forwardToYouTube(
+    'videos',
+    pickParams(searchParams, ['id', 'part']),
+    getYouTubeKeySlot(request),
+    getUserApiKey(request, 'youtube')
+  );
+}
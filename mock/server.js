@@ -0,0 +1,79 @@
+// Local stand-in for the YouTube Data API and Last.fm, serving the recorded
+// responses in ./fixtures so the discovery flow runs offline and
+// deterministically. Point the /api routes at it with
+//
+//   YOUTUBE_API_BASE_URL=http://localhost:8787/youtube/v3
+//   LASTFM_API_BASE_URL=http://localhost:8787/lastfm/2.0/
+//
+// Keys are not checked, but the routes still need YOUTUBE_API_KEY and
+// LASTFM_API_KEY to be set to something.
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.MOCK_PORT) || 8787;
+
+const loadFixture = (name) =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+const youtube = loadFixture('youtube');
+const lastfm = loadFixture('lastfm');
+
+const send = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const normalize = (value) => (value ?? '').trim().toLowerCase();
+
+// videos.list returns whichever of the requested ids we have recordings for
+const handleVideos = (params) => {
+  const ids = (params.get('id') ?? '').split(',').filter(Boolean);
+  return {
+    kind: 'youtube#videoListResponse',
+    items: ids.map((id) => youtube.videos[id]).filter(Boolean),
+    pageInfo: { totalResults: ids.length, resultsPerPage: ids.length },
+  };
+};
+
+const handlePlaylistItems = (params) =>
+  youtube.playlistItems[params.get('playlistId') ?? ''] ?? {
+    kind: 'youtube#playlistItemListResponse',
+    items: [],
+    pageInfo: { totalResults: 0, resultsPerPage: 0 },
+  };
+
+const handleSearch = (params) =>
+  youtube.search[normalize(params.get('q'))] ?? {
+    kind: 'youtube#searchListResponse',
+    items: [],
+    pageInfo: { totalResults: 0, resultsPerPage: 0 },
+  };
+
+// Track methods are keyed by "artist|track", artist methods by artist. Like
+// Last.fm, unknown lookups answer with error 6.
+const handleLastFm = (params) => {
+  const method = normalize(params.get('method'));
+  const key = method.startsWith('artist.')
+    ? normalize(params.get('artist'))
+    : `${normalize(params.get('artist'))}|${normalize(params.get('track'))}`;
+
+  return lastfm[method]?.[key] ?? { error: 6, message: 'Track not found', links: [] };
+};
+
+const server = createServer((request, response) => {
+  const { pathname, searchParams } = new URL(request.url ?? '/', `http://localhost:${PORT}`);
+  console.log(`${request.method} ${pathname}?${searchParams}`);
+
+  if (request.method !== 'GET') return send(response, 405, { error: { code: 405, message: 'Method not allowed' } });
+
+  if (pathname === '/youtube/v3/videos') return send(response, 200, handleVideos(searchParams));
+  if (pathname === '/youtube/v3/search') return send(response, 200, handleSearch(searchParams));
+  if (pathname === '/youtube/v3/playlistItems') return send(response, 200, handlePlaylistItems(searchParams));
+  if (pathname.replace(/\/$/, '') === '/lastfm/2.0') return send(response, 200, handleLastFm(searchParams));
+
+  send(response, 404, { error: { code: 404, message: `No mock for ${pathname}` } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock YouTube and Last.fm APIs on http://localhost:${PORT}`);
+});
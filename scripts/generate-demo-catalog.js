@@ -0,0 +1,170 @@
+// Generates src/lib/demo/catalog.json, the made-up catalog behind demo mode:
+// fictional artists and tracks with tags, listener counts, durations, fake
+// YouTube video ids, artwork colors and precomputed similar tracks and
+// artists. Seeded, so re-running it produces the same file.
+//
+//   npm run demo:catalog
+import { writeFileSync } from 'node:fs';
+
+const SEED = 20240601;
+const ARTISTS_PER_GENRE = 5;
+const TRACKS_PER_ARTIST = 5;
+const SIMILAR_TRACKS = 15;
+const SIMILAR_ARTISTS = 10;
+
+// mulberry32
+const createRandom = (seed) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const random = createRandom(SEED);
+const pick = (items) => items[Math.floor(random() * items.length)];
+const sample = (items, count) => [...items].sort(() => random() - 0.5).slice(0, count);
+const round = (value) => Math.round(value * 1000) / 1000;
+
+// Each genre: its tags (the first is always applied), the moods its tracks
+// lean towards, and a base hue for artwork
+const GENRES = [
+  { name: 'indie rock', tags: ['indie rock', 'indie', 'alternative', 'guitar'], moods: ['melancholy', 'upbeat', 'dreamy'], hue: 12 },
+  { name: 'synthpop', tags: ['synthpop', 'electronic', '80s', 'new wave'], moods: ['upbeat', 'dreamy', 'happy'], hue: 300 },
+  { name: 'hip-hop', tags: ['hip-hop', 'rap', 'boom bap', 'underground'], moods: ['aggressive', 'energetic', 'chill'], hue: 45 },
+  { name: 'jazz', tags: ['jazz', 'smooth jazz', 'saxophone', 'instrumental'], moods: ['mellow', 'romantic', 'chill'], hue: 30 },
+  { name: 'folk', tags: ['folk', 'acoustic', 'singer-songwriter', 'americana'], moods: ['melancholy', 'mellow', 'sad'], hue: 90 },
+  { name: 'metal', tags: ['metal', 'heavy metal', 'hard rock', 'thrash'], moods: ['aggressive', 'energetic', 'dark'], hue: 0 },
+  { name: 'house', tags: ['house', 'deep house', 'dance', 'electronic'], moods: ['energetic', 'happy', 'upbeat'], hue: 200 },
+  { name: 'soul', tags: ['soul', 'rnb', 'funk', 'motown'], moods: ['romantic', 'happy', 'sad'], hue: 340 },
+  { name: 'ambient', tags: ['ambient', 'chillout', 'downtempo', 'instrumental'], moods: ['chill', 'dreamy', 'mellow'], hue: 180 },
+  { name: 'punk', tags: ['punk', 'punk rock', 'pop punk', 'guitar'], moods: ['energetic', 'aggressive', 'upbeat'], hue: 350 },
+  { name: 'pop', tags: ['pop', 'dance pop', 'catchy', 'dance'], moods: ['happy', 'upbeat', 'romantic'], hue: 320 },
+  { name: 'country', tags: ['country', 'americana', 'bluegrass', 'acoustic'], moods: ['sad', 'happy', 'mellow'], hue: 60 },
+  { name: 'lo-fi', tags: ['lo-fi', 'chillhop', 'beats', 'instrumental'], moods: ['chill', 'mellow', 'melancholy'], hue: 260 },
+];
+
+const ARTIST_FIRST = ['The Paper', 'Velvet', 'Neon', 'Silver', 'Midnight', 'Golden', 'Hollow', 'Crimson', 'Static', 'Echo', 'Wild', 'Lunar', 'Glass', 'Northern', 'Copper', 'Electric', 'Quiet', 'Broken', 'Saint', 'Paper'];
+const ARTIST_SECOND = ['Lanterns', 'Harbor', 'Foxes', 'Arcade', 'Parade', 'Tides', 'Satellites', 'Orchard', 'Machines', 'Rivers', 'Pilots', 'Ghosts', 'Gardens', 'Wolves', 'Signals', 'Hearts', 'Atlas', 'Comets', 'Avenue', 'Sparrows'];
+const SOLO_FIRST = ['Mara', 'Jonah', 'Ines', 'Theo', 'Nova', 'Eli', 'Rosa', 'Kai', 'Lena', 'Otis', 'Juno', 'Milo', 'Ada', 'Felix', 'Ivy'];
+const SOLO_LAST = ['Vale', 'Reyes', 'Okafor', 'Lind', 'Moreau', 'Castell', 'Hart', 'Sato', 'Brooks', 'Quinn', 'Navarro', 'Holm', 'Adler', 'Stone', 'Wren'];
+
+const TITLE_WORDS = ['Summer', 'Ghost', 'Light', 'Heart', 'City', 'River', 'Fire', 'Rain', 'Gold', 'Night', 'Static', 'Ocean', 'Paper', 'Stars', 'Signal', 'Honey', 'Wire', 'Neon', 'Glass', 'Velvet', 'Storm', 'Echo', 'Highway', 'Moon', 'Silver'];
+const TITLE_PATTERNS = [
+  (a, b) => `${a} ${b}`,
+  (a) => `${a}`,
+  (a, b) => `${a} of ${b}`,
+  (a) => `Chasing ${a}`,
+  (a, b) => `${a} & ${b}`,
+  (a) => `Little ${a}`,
+  (a) => `${a} Again`,
+  (a, b) => `Under the ${a} ${b}`,
+  (a) => `All My ${a}`,
+  (a) => `${a} (Interlude)`,
+];
+
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const usedIds = new Set();
+// 11 characters like a real video id, always starting with "demo"
+const fakeVideoId = () => {
+  let id;
+  do {
+    id = 'demo' + Array.from({ length: 7 }, () => pick(ID_CHARS.split(''))).join('');
+  } while (usedIds.has(id));
+  usedIds.add(id);
+  return id;
+};
+
+const usedNames = new Set();
+const artistName = () => {
+  let name;
+  do {
+    name = random() < 0.6
+      ? `${pick(ARTIST_FIRST)} ${pick(ARTIST_SECOND)}`
+      : `${pick(SOLO_FIRST)} ${pick(SOLO_LAST)}`;
+  } while (usedNames.has(name));
+  usedNames.add(name);
+  return name;
+};
+
+const artists = [];
+const tracks = [];
+
+for (const genre of GENRES) {
+  for (let artistIndex = 0; artistIndex < ARTISTS_PER_GENRE; artistIndex++) {
+    const artist = { name: artistName(), genre: genre.name, tags: new Set([genre.tags[0]]) };
+    artists.push(artist);
+    const usedTitles = new Set();
+
+    for (let trackIndex = 0; trackIndex < TRACKS_PER_ARTIST; trackIndex++) {
+      let title;
+      do {
+        title = pick(TITLE_PATTERNS)(pick(TITLE_WORDS), pick(TITLE_WORDS));
+      } while (usedTitles.has(title));
+      usedTitles.add(title);
+
+      const tags = [
+        genre.tags[0],
+        ...sample(genre.tags.slice(1), 1 + Math.floor(random() * 2)),
+        ...sample(genre.moods, 1 + Math.floor(random() * 2)),
+      ];
+      tags.forEach((tag) => artist.tags.add(tag));
+
+      // Listener counts span a long tail from a few hundred to a few million
+      const listeners = Math.round(10 ** (2.5 + random() * 4));
+
+      tracks.push({
+        title,
+        artist: artists.length - 1,
+        videoId: fakeVideoId(),
+        tags,
+        listeners,
+        playcount: Math.round(listeners * (4 + random() * 12)),
+        durationSeconds: 140 + Math.floor(random() * 200),
+        hue: (genre.hue + Math.floor(random() * 40) - 20 + 360) % 360,
+      });
+    }
+  }
+}
+
+const jaccard = (a, b) => {
+  const left = new Set(a);
+  const shared = b.filter((item) => left.has(item)).length;
+  return shared / (left.size + b.length - shared);
+};
+
+// Tag overlap dominates, same genre and same artist add a little, with some
+// noise so lists don't tie; normalized so each track's closest match is 1
+for (const track of tracks) {
+  const scores = tracks
+    .map((other, index) => {
+      if (other === track) return null;
+      const sameArtist = other.artist === track.artist;
+      const sameGenre = artists[other.artist].genre === artists[track.artist].genre;
+      const score = 0.55 * jaccard(track.tags, other.tags) + 0.25 * Number(sameGenre) + 0.1 * Number(sameArtist) + 0.1 * random();
+      return [index, score];
+    })
+    .filter(Boolean)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SIMILAR_TRACKS);
+
+  const top = scores[0][1];
+  track.similar = scores.map(([index, score]) => [index, round(score / top)]);
+}
+
+for (const artist of artists) {
+  const scores = artists
+    .map((other, index) => (other === artist ? null : [index, jaccard([...artist.tags], [...other.tags])]))
+    .filter(Boolean)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SIMILAR_ARTISTS);
+
+  const top = scores[0][1] || 1;
+  artist.similar = scores.map(([index, score]) => [index, round(score / top)]);
+  artist.tags = [...artist.tags];
+}
+
+const catalog = { version: 1, artists, tracks };
+const output = new URL('../src/lib/demo/catalog.json', import.meta.url);
+writeFileSync(output, JSON.stringify(catalog) + '\n');
+console.log(`Wrote ${tracks.length} tracks by ${artists.length} artists to ${output.pathname}`);
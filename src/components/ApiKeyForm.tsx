@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CheckCircle2, XCircle, WifiOff, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useApiKeys } from "@/hooks/use-api-keys";
+import { clearApiKeys, isKeyStoreEncrypted, saveApiKeys, type ApiKeys } from "@/lib/keyStore";
+import type { KeyCheck } from "@/lib/api";
+
+interface ApiKeyFormProps {
+  onSaved?: () => void;
+}
+
+type Service = keyof ApiKeys;
+type CheckStatus = KeyCheck | 'checking';
+
+const SERVICES: { id: Service; label: string; placeholder: string; helpUrl: string }[] = [
+  {
+    id: 'youtube',
+    label: "YouTube Data API v3 key",
+    placeholder: "AIza...",
+    helpUrl: "https://console.cloud.google.com/apis/library/youtube.googleapis.com",
+  },
+  {
+    id: 'lastfm',
+    label: "Last.fm API key",
+    placeholder: "32 hex characters",
+    helpUrl: "https://www.last.fm/api/account/create",
+  },
+];
+
+const CHECK_LABELS: Record<KeyCheck, string> = {
+  valid: "Works",
+  invalid: "Rejected",
+  unreachable: "Couldn't check",
+};
+
+const CheckBadge = ({ status }: { status?: CheckStatus }) => {
+  if (!status) return null;
+  if (status === 'checking') return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+
+  const Icon = status === 'valid' ? CheckCircle2 : status === 'invalid' ? XCircle : WifiOff;
+  const color = status === 'valid' ? "text-green-500" : status === 'invalid' ? "text-destructive" : "text-yellow-500";
+  return (
+    <span className={`flex items-center gap-1 text-xs ${color}`}>
+      <Icon className="w-4 h-4" />
+      {CHECK_LABELS[status]}
+    </span>
+  );
+};
+
+export const ApiKeyForm = ({ onSaved }: ApiKeyFormProps) => {
+  const { state, keys } = useApiKeys();
+  const [values, setValues] = useState<ApiKeys>(keys);
+  const [encrypt, setEncrypt] = useState(isKeyStoreEncrypted);
+  const [passphrase, setPassphrase] = useState("");
+  const [checks, setChecks] = useState<Partial<Record<Service, CheckStatus>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleChange = (service: Service, value: string) => {
+    setValues((current) => ({ ...current, [service]: value }));
+    setChecks((current) => ({ ...current, [service]: undefined }));
+  };
+
+  // An empty field tests whatever key the server is configured with
+  const handleTest = async () => {
+    setChecks({ youtube: 'checking', lastfm: 'checking' });
+    const { checkYouTubeKey, checkLastFmKey } = await import('@/lib/api');
+    await Promise.all([
+      checkYouTubeKey(values.youtube?.trim()).then((status) => setChecks((current) => ({ ...current, youtube: status }))),
+      checkLastFmKey(values.lastfm?.trim()).then((status) => setChecks((current) => ({ ...current, lastfm: status }))),
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (encrypt && !passphrase) {
+      toast({
+        title: "Passphrase Needed",
+        description: "Enter a passphrase to encrypt your keys, or turn encryption off.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveApiKeys(values, encrypt ? passphrase : undefined);
+      setPassphrase("");
+      toast({
+        title: "Keys Saved",
+        description: encrypt
+          ? "Your keys are encrypted in this browser. You'll enter the passphrase once per visit."
+          : "Your keys are stored in this browser and used for every lookup.",
+      });
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving API keys:', error);
+      toast({
+        title: "Could not save keys",
+        description: "Something went wrong. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    clearApiKeys();
+    setValues({});
+    setChecks({});
+    toast({
+      title: "Keys Removed",
+      description: "Lookups use the server's API keys again.",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {SERVICES.map(({ id, label, placeholder, helpUrl }) => (
+        <div key={id} className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor={`api-key-${id}`}>{label}</Label>
+            <CheckBadge status={checks[id]} />
+          </div>
+          <Input
+            id={`api-key-${id}`}
+            type="password"
+            autoComplete="off"
+            spellCheck={false}
+            placeholder={placeholder}
+            value={values[id] ?? ""}
+            onChange={(e) => handleChange(id, e.target.value)}
+          />
+          <a href={helpUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground underline hover:text-primary">
+            Get a key
+          </a>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium">Encrypt with a passphrase</p>
+          <p className="text-xs text-muted-foreground">
+            Keys are only readable after you unlock them. There's no way to recover a forgotten passphrase.
+          </p>
+        </div>
+        <Switch checked={encrypt} onCheckedChange={setEncrypt} aria-label="Encrypt keys with a passphrase" />
+      </div>
+      {encrypt && (
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        {state !== 'none' && (
+          <Button variant="outline" onClick={handleRemove} className="mr-auto border-border/50 hover:bg-destructive/10 hover:text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove stored keys
+          </Button>
+        )}
+        <Button variant="outline" onClick={handleTest} disabled={checks.youtube === 'checking' || checks.lastfm === 'checking'}>
+          Test
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving} className="bg-gradient-music hover:opacity-90">
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyForm;
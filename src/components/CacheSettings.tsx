@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Database, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { clearCache, getCacheStats, type CacheStats } from "@/lib/cache";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const CacheSettings = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const { toast } = useToast();
+
+  const refreshStats = useCallback(async () => {
+    setStats(await getCacheStats());
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearCache();
+      toast({
+        title: "Cache Cleared",
+        description: "Saved YouTube and Last.fm responses have been removed.",
+      });
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      toast({
+        title: "Could not clear cache",
+        description: "Something went wrong. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsClearing(false);
+      refreshStats();
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <Database className="w-5 h-5 text-primary" />
+        <div>
+          <p className="text-sm font-medium">Response cache</p>
+          <p className="text-xs text-muted-foreground">
+            {stats
+              ? `${stats.entries} saved responses · ${formatBytes(stats.bytes)}`
+              : "Calculating..."}
+          </p>
+        </div>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleClear}
+        disabled={isClearing || stats?.entries === 0}
+        className="border-border/50 hover:text-destructive"
+      >
+        {isClearing ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Trash2 className="w-4 h-4 mr-2" />
+        )}
+        Clear
+      </Button>
+    </div>
+  );
+};
+
+export default CacheSettings;
@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { FlaskConical, X } from "lucide-react";
+import { setDemoMode } from "@/lib/demoMode";
+
+interface DemoBannerProps {
+  // Fills the URL input with one of the catalog's songs
+  onTryUrl: (url: string) => void;
+}
+
+interface DemoSample {
+  label: string;
+  url: string;
+}
+
+const SAMPLE_COUNT = 4;
+
+export const DemoBanner = ({ onTryUrl }: DemoBannerProps) => {
+  const [samples, setSamples] = useState<DemoSample[]>([]);
+  const [trackCount, setTrackCount] = useState<number | null>(null);
+
+  // The most listened-to song from a few different genres
+  useEffect(() => {
+    let cancelled = false;
+    import('@/lib/demo/catalog').then(async ({ loadDemoCatalog, getDemoVideoUrl }) => {
+      const catalog = await loadDemoCatalog();
+      if (cancelled) return;
+
+      const byGenre = new Map<string, (typeof catalog.tracks)[number]>();
+      for (const track of catalog.tracks) {
+        const genre = catalog.artists[track.artist].genre;
+        const best = byGenre.get(genre);
+        if (!best || best.listeners < track.listeners) byGenre.set(genre, track);
+      }
+
+      setTrackCount(catalog.tracks.length);
+      setSamples([...byGenre.values()].slice(0, SAMPLE_COUNT).map((track) => ({
+        label: `${catalog.artists[track.artist].name} - ${track.title}`,
+        url: getDemoVideoUrl(track),
+      })));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="glass-card rounded-2xl border border-primary/40 p-4 mb-6 text-left">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <FlaskConical className="w-5 h-5 text-primary mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-primary">Demo mode</p>
+            <p className="text-sm text-muted-foreground">
+              Songs, links and recommendations come from a bundled catalog
+              {trackCount ? ` of ${trackCount} made-up tracks` : ""}, not YouTube or Last.fm. Try one of these:
+            </p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setDemoMode(false)}
+          className="flex-shrink-0 hover:bg-accent/50"
+          title="Leave demo mode"
+        >
+          <X className="w-4 h-4 mr-1" />
+          Exit demo
+        </Button>
+      </div>
+      {samples.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3 ml-8">
+          {samples.map((sample) => (
+            <Button
+              key={sample.url}
+              size="sm"
+              variant="outline"
+              onClick={() => onTryUrl(sample.url)}
+              className="border-border/50 hover:bg-accent/50 text-xs"
+            >
+              {sample.label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DemoBanner;
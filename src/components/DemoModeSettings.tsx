@@ -0,0 +1,25 @@
+import { Switch } from "@/components/ui/switch";
+import { FlaskConical } from "lucide-react";
+import { useDemoMode } from "@/hooks/use-demo-mode";
+import { setDemoMode } from "@/lib/demoMode";
+
+export const DemoModeSettings = () => {
+  const demoMode = useDemoMode();
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <FlaskConical className="w-5 h-5 text-primary" />
+        <div>
+          <p className="text-sm font-medium">Demo mode</p>
+          <p className="text-xs text-muted-foreground">
+            Use a bundled catalog of made-up songs. No API keys or network needed.
+          </p>
+        </div>
+      </div>
+      <Switch checked={demoMode} onCheckedChange={setDemoMode} aria-label="Demo mode" />
+    </div>
+  );
+};
+
+export default DemoModeSettings;
@@ -0,0 +1,132 @@
+import { Fragment, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, ListPlus, Youtube } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getYouTubePlaylistUrl, savePlaylist, type SavedPlaylistSong } from "@/lib/savedPlaylists";
+
+interface DiscoveryTrailProps {
+  // The seed of each step, oldest first
+  songs: SavedPlaylistSong[];
+  index: number;
+  onNavigate: (index: number) => void;
+}
+
+export const DiscoveryTrail = ({ songs, index, onNavigate }: DiscoveryTrailProps) => {
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+  const youtubeUrl = getYouTubePlaylistUrl(songs);
+
+  const handleOpenSave = () => {
+    setName(`Discovery from ${songs[0].title}`);
+    setSaving(true);
+  };
+
+  const handleSave = () => {
+    savePlaylist(name.trim() || `Discovery from ${songs[0].title}`, songs);
+    setSaving(false);
+    toast({
+      title: "Playlist Saved",
+      description: `${songs.length} songs saved. Find them any time in Settings.`,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-8">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onNavigate(index - 1)}
+        disabled={index === 0}
+        className="border-border/50 hover:bg-accent/50 px-2"
+        title="Back"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onNavigate(index + 1)}
+        disabled={index === songs.length - 1}
+        className="border-border/50 hover:bg-accent/50 px-2"
+        title="Forward"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+
+      <Breadcrumb className="flex-1 min-w-0">
+        <BreadcrumbList>
+          {songs.map((song, i) => (
+            <Fragment key={`${i}-${song.artist}-${song.title}`}>
+              {i > 0 && <BreadcrumbSeparator />}
+              <BreadcrumbItem className="max-w-48">
+                {i === index ? (
+                  <BreadcrumbPage className="truncate">{song.title}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <button type="button" className="truncate" onClick={() => onNavigate(i)} title={`${song.artist} - ${song.title}`}>
+                      {song.title}
+                    </button>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <Button variant="outline" size="sm" onClick={handleOpenSave} className="border-border/50 hover:bg-accent/50">
+        <ListPlus className="w-4 h-4 mr-2" />
+        Save as playlist
+      </Button>
+
+      <Dialog open={saving} onOpenChange={setSaving}>
+        <DialogContent className="glass-card max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Save your discovery trail</DialogTitle>
+            <DialogDescription>
+              Keeps these {songs.length} songs in this browser. Open them on YouTube to play them in order and save them there.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="trail-name">Name</Label>
+            <Input id="trail-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <ol className="max-h-60 overflow-y-auto space-y-1 text-sm list-decimal list-inside text-muted-foreground">
+            {songs.map((song, i) => (
+              <li key={`${i}-${song.artist}-${song.title}`} className="truncate">
+                <span className="text-foreground">{song.title}</span> · {song.artist}
+              </li>
+            ))}
+          </ol>
+          <DialogFooter className="gap-2">
+            {youtubeUrl && (
+              <Button variant="outline" asChild>
+                <a href={youtubeUrl} target="_blank" rel="noopener noreferrer">
+                  <Youtube className="w-4 h-4 mr-2" />
+                  Open on YouTube
+                </a>
+              </Button>
+            )}
+            <Button onClick={handleSave} className="bg-gradient-music hover:opacity-90">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DiscoveryTrail;
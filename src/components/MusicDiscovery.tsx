@@ -1,10 +1,36 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { SongCard } from "./SongCard";
-import { Search, Music, Sparkles, Loader2, History, X, RefreshCw, Share2, Waves, Heart, Zap } from "lucide-react";
+import { DemoBanner } from "./DemoBanner";
+import { QuotaBadge } from "./QuotaBadge";
+import { SeedPickerDialog } from "./SeedPickerDialog";
+import { SetupWizard } from "./SetupWizard";
+import { PlaylistProgress, type PlaylistSeedProgress } from "./PlaylistProgress";
+import { PinnedSeeds, MAX_PINNED_SEEDS, type PinnedSeed } from "./PinnedSeeds";
+import { DiscoveryTrail } from "./DiscoveryTrail";
+import { VibeControls } from "./VibeControls";
+import { Link } from "react-router-dom";
+import { Search, Music, Sparkles, Loader2, History, X, RefreshCw, Share2, Waves, Heart, Zap, Settings, AlertTriangle, Radio, Shuffle, Gem } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
+import { useDemoMode } from "@/hooks/use-demo-mode";
+import { setDemoMode } from "@/lib/demoMode";
+import type { RecommendationSource, SimilarTrack } from "@/lib/api";
+import { isAbortError, isApiError } from "@/lib/errors";
+import { getSeedChoice, rememberSeedChoice, type SeedChoice } from "@/lib/seedChoices";
+import { isAmbiguousMatch, LOW_CONFIDENCE_THRESHOLD, type ScoredTrack } from "@/lib/seedMatching";
+import { parseYouTubeUrl } from "@/lib/youtubeUrl";
+import type { TrackRef } from "@/lib/providers/types";
+import { isSameTrack, trackFromRef } from "@/lib/trackIdentity";
+import type { RadioState } from "@/lib/radio";
+import type { BlendedTrack } from "@/lib/blend";
+import type { AudioFeatures, VibeTargets } from "@/lib/audioFeatures";
 
 interface Song {
   title: string;
@@ -12,11 +38,17 @@ interface Song {
   coverArt?: string;
   spotifyUrl?: string;
   youtubeUrl?: string;
-  audioFeatures?: {
-    danceability?: number;
-    energy?: number;
-    valence?: number;
-  };
+  previewUrl?: string;
+  durationSeconds?: number;
+  source?: RecommendationSource;
+  matchScore?: number;
+  matchedSeeds?: TrackRef[];
+  // Radio picks: the earlier track they branched from
+  radioSeed?: TrackRef;
+  listeners?: number;
+  playcount?: number;
+  // Estimated from Last.fm tags
+  audioFeatures?: AudioFeatures;
 }
 
 interface SearchHistory {
@@ -26,14 +58,187 @@ interface SearchHistory {
   timestamp: number;
 }
 
+// One seed visited in the discovery trail, with the results it produced
+interface TrailStep {
+  song: Song;
+  recommendations: Song[];
+  seedConfidence: number | null;
+  // What the recommendations were picked from, for re-ranking
+  candidates: SimilarTrack[];
+}
+
+// The results header's re-ranking controls, each 0..1
+interface RankingControls {
+  variety: number;
+  obscurity: number;
+  vibe: VibeTargets;
+}
+
+// Fetches the candidates for the shown recommendations again
+type CandidateFetcher = (signal: AbortSignal) => Promise<(SimilarTrack | BlendedTrack)[]>;
+
+interface SeedPickerRequest {
+  videoTitle: string;
+  alternatives: ScoredTrack[];
+  initialChoice: SeedChoice;
+}
+
+type RecommendationSort = 'relevance' | 'score';
+type RecommendationFilter = 'all' | RecommendationSource;
+
+// Source order doubles as a trust ranking when sorting by score
+const SOURCE_RANK: Record<RecommendationSource, number> = { similar: 0, artist: 1, title: 2 };
+
+const sortAndFilterRecommendations = (songs: Song[], sort: RecommendationSort, filter: RecommendationFilter): Song[] => {
+  const visible = filter === 'all' ? songs : songs.filter((song) => song.source === filter);
+  if (sort === 'relevance') return visible;
+
+  return [...visible].sort((a, b) =>
+    (SOURCE_RANK[a.source ?? 'title'] - SOURCE_RANK[b.source ?? 'title']) ||
+    ((b.matchScore ?? 0) - (a.matchScore ?? 0))
+  );
+};
+
+// Seeds (playlist items or pins) looked up at once, and how many blended
+// picks to show
+const SEED_CONCURRENCY = 3;
+const BLENDED_RECOMMENDATIONS = 12;
+// Songs one seed recommends
+const SEED_RECOMMENDATIONS = 8;
+// Candidates considered per shown song when re-ranking, deeper for hidden
+// gems and vibe targets, and how far down Last.fm's similar lists to look
+const CANDIDATES_PER_PICK = 3;
+const DEEP_CANDIDATES_PER_PICK = 5;
+const DEEP_SIMILAR_LIMIT = 50;
+
+// Hidden gems sit further down the similar lists; otherwise providers keep
+// their usual depth
+const getSimilarLimit = (obscurity: number) => (obscurity > 0 ? DEEP_SIMILAR_LIMIT : undefined);
+
+// Tracks radio mode adds at a time, and how close to the end of the list
+// playing a song has to be to fetch more
+const RADIO_BATCH = 5;
+const RADIO_PREFETCH_DISTANCE = 3;
+
+// Steps kept for back/forward; older ones drop off the start
+const MAX_TRAIL_STEPS = 25;
+
+type Recovery = 'retry' | 'history' | 'new-search' | 'keys';
+
+// Turn a failed analysis into a message and the most useful next step
+const describeAnalysisError = (error: unknown): { title: string; description: string; recovery?: Recovery } => {
+  if (!isApiError(error)) {
+    return {
+      title: "Analysis Failed",
+      description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+      recovery: 'retry',
+    };
+  }
+
+  const service = error.service === 'youtube' ? 'YouTube' : 'Last.fm';
+  switch (error.detail.kind) {
+    case 'network':
+      return {
+        title: "You're Offline",
+        description: `We couldn't reach ${service}. Check your connection and try again.`,
+        recovery: 'retry',
+      };
+    case 'rate-limited':
+      return {
+        title: "Slow Down",
+        description: `${service} is rate limiting requests. Wait a few seconds and try again.`,
+        recovery: 'retry',
+      };
+    case 'quota-exceeded':
+      return {
+        title: "Daily Quota Used Up",
+        description: "Today's YouTube quota is spent. Songs you've analyzed before still load from cache.",
+        recovery: 'history',
+      };
+    case 'invalid-key':
+      return {
+        title: "API Key Problem",
+        description: `The ${service} API key is missing or was rejected. Add your own key, or try the app with demo data.`,
+        recovery: 'keys',
+      };
+    case 'not-found':
+      return {
+        title: "Not Found",
+        description: error.service === 'youtube'
+          ? "That video doesn't exist or is private. Try another URL."
+          : "Last.fm doesn't know this song. Try another URL.",
+        recovery: 'new-search',
+      };
+    case 'malformed-response':
+      return {
+        title: "Unexpected Response",
+        description: `${service} sent back something we couldn't read. Please try again.`,
+        recovery: 'retry',
+      };
+    case 'http':
+      return {
+        title: "Analysis Failed",
+        description: `${service} returned an error (${error.detail.status}). Please try again.`,
+        recovery: 'retry',
+      };
+  }
+};
+
 export const MusicDiscovery = () => {
   const [youtubeUrl, setYoutubeUrl] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [recommendations, setRecommendations] = useState<Song[]>([]);
+  const [recommendationSort, setRecommendationSort] = useState<RecommendationSort>('relevance');
+  const [recommendationFilter, setRecommendationFilter] = useState<RecommendationFilter>('all');
   const [currentSong, setCurrentSong] = useState<Song | null>(null);
+  // How sure we are that the Last.fm seed is the song in the video
+  const [seedConfidence, setSeedConfidence] = useState<number | null>(null);
   const [searchHistory, setSearchHistory] = useState<SearchHistory[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  // Controller for the analysis in flight, so a newer one can cancel it
+  const analysisRef = useRef<AbortController | null>(null);
+  // Open while an analysis waits for the user to pick the seed song
+  const [seedPicker, setSeedPicker] = useState<SeedPickerRequest | null>(null);
+  const [showSetup, setShowSetup] = useState(false);
+  // Per-item progress while (and after) analyzing a playlist
+  const [playlistProgress, setPlaylistProgress] = useState<PlaylistSeedProgress[] | null>(null);
+  const [pinnedSeeds, setPinnedSeeds] = useState<PinnedSeed[]>([]);
+  // The pinned seeds behind the current recommendations, if they're a blend
+  const [blendedFrom, setBlendedFrom] = useState<PinnedSeed[] | null>(null);
+  // Seeds visited by analyzing a URL, then clicking through recommendations
+  const [trail, setTrail] = useState<TrailStep[]>([]);
+  const [trailIndex, setTrailIndex] = useState(-1);
+  // Radio mode keeps appending recommendations for the current song
+  const [radioOn, setRadioOn] = useState(false);
+  const [radioDrift, setRadioDrift] = useState(0.3);
+  const [radioLoading, setRadioLoading] = useState(false);
+  const [radioDry, setRadioDry] = useState(false);
+  const radioRef = useRef<{ state: RadioState; controller: AbortController } | null>(null);
+  const radioSentinelRef = useRef<HTMLDivElement | null>(null);
+  const loadMoreRadioRef = useRef<() => void>(() => {});
+  // Variety 0 ranks purely by relevance; higher trades relevance for more
+  // artists and styles. Obscurity holds popular tracks back; vibe targets
+  // steer toward an energy and mood.
+  const [rankingControls, setRankingControls] = useState<RankingControls>({ variety: 0.3, obscurity: 0, vibe: {} });
+  // The candidates behind the shown recommendations, re-ranked when a slider
+  // moves. `fetchDeeper` refetches them for hidden gems when they came from
+  // the usual, shallower similar lists.
+  const rankingRef = useRef<{
+    candidates: (SimilarTrack | BlendedTrack)[];
+    count: number;
+    fetchDeeper?: CandidateFetcher;
+  } | null>(null);
+  const seedPickerResolveRef = useRef<((choice: SeedChoice) => void) | null>(null);
   const { toast } = useToast();
+  const demoMode = useDemoMode();
+
+  // Cancel any in-flight analysis or radio batch on unmount
+  useEffect(() => {
+    return () => {
+      analysisRef.current?.abort();
+      radioRef.current?.controller.abort();
+    };
+  }, []);
 
   // Load search history from localStorage on component mount
   useEffect(() => {
@@ -52,9 +257,41 @@ export const MusicDiscovery = () => {
     localStorage.setItem('songLensHistory', JSON.stringify(searchHistory));
   }, [searchHistory]);
 
-  const isValidYouTubeUrl = (url: string) => {
-    const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)[a-zA-Z0-9_-]+/;
-    return youtubeRegex.test(url);
+  useEffect(() => {
+    const savedPins = localStorage.getItem('songLensPinnedSeeds');
+    if (savedPins) {
+      try {
+        setPinnedSeeds(JSON.parse(savedPins));
+      } catch (error) {
+        console.error('Error loading pinned seeds:', error);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('songLensPinnedSeeds', JSON.stringify(pinnedSeeds));
+  }, [pinnedSeeds]);
+
+  const isPinned = (song: TrackRef) => pinnedSeeds.some((seed) => isSameTrack(trackFromRef(seed), trackFromRef(song)));
+
+  const togglePin = (song: Song) => {
+    if (isPinned(song)) {
+      setPinnedSeeds(pinnedSeeds.filter((seed) => !isSameTrack(trackFromRef(seed), trackFromRef(song))));
+      return;
+    }
+    if (pinnedSeeds.length >= MAX_PINNED_SEEDS) {
+      toast({
+        title: "Too Many Seeds",
+        description: `You can blend up to ${MAX_PINNED_SEEDS} songs. Unpin one first.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    setPinnedSeeds([...pinnedSeeds, { title: song.title, artist: song.artist, coverArt: song.coverArt, weight: 1 }]);
+  };
+
+  const handleSeedWeightChange = (index: number, weight: number) => {
+    setPinnedSeeds(pinnedSeeds.map((seed, i) => (i === index ? { ...seed, weight } : seed)));
   };
 
   const addToHistory = (url: string, title: string, artist: string) => {
@@ -73,6 +310,431 @@ export const MusicDiscovery = () => {
     });
   };
 
+  // Pauses the analysis until the user picks the seed song; cancelling the
+  // analysis closes the picker
+  const askForSeed = (request: SeedPickerRequest, signal: AbortSignal) =>
+    new Promise<SeedChoice>((resolve, reject) => {
+      const onAbort = () => {
+        seedPickerResolveRef.current = null;
+        setSeedPicker(null);
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      seedPickerResolveRef.current = (choice) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(choice);
+      };
+      setSeedPicker(request);
+    });
+
+  const handleSeedPicked = (choice: SeedChoice) => {
+    seedPickerResolveRef.current?.(choice);
+    seedPickerResolveRef.current = null;
+    setSeedPicker(null);
+  };
+
+  const stopRadio = () => {
+    radioRef.current?.controller.abort();
+    radioRef.current = null;
+    setRadioOn(false);
+    setRadioLoading(false);
+    setRadioDry(false);
+  };
+
+  // A new seed (analysis, trail step, blend) ends the station
+  useEffect(() => {
+    stopRadio();
+  }, [currentSong, blendedFrom]);
+
+  const loadMoreRadio = async () => {
+    const radio = radioRef.current;
+    if (!radio || radioLoading || radioDry) return;
+
+    setRadioLoading(true);
+    try {
+      const { nextRadioTracks } = await import('@/lib/radio');
+      const { tracks, state } = await nextRadioTracks(radio.state, RADIO_BATCH, radioDrift, radio.controller.signal);
+      const songs = (await toSongs(tracks, radio.controller.signal))
+        .map((song, index) => ({ ...song, radioSeed: tracks[index].seeds[0] }));
+      if (radioRef.current !== radio) return;
+
+      radio.state = state;
+      if (songs.length === 0) {
+        setRadioDry(true);
+        return;
+      }
+      setRecommendations((current) => [...current, ...songs]);
+    } catch (error) {
+      if (radioRef.current !== radio) return;
+      reportAnalysisError(error, () => handleRadioToggle(true));
+      stopRadio();
+    } finally {
+      if (radioRef.current === radio) setRadioLoading(false);
+    }
+  };
+  loadMoreRadioRef.current = loadMoreRadio;
+
+  const handleRadioToggle = async (enabled: boolean) => {
+    if (!enabled || !currentSong) {
+      stopRadio();
+      return;
+    }
+    const { startRadio } = await import('@/lib/radio');
+    radioRef.current = { state: startRadio(currentSong, recommendations), controller: new AbortController() };
+    setRadioOn(true);
+    setRadioDry(false);
+    setRecommendationFilter('all');
+    setRecommendationSort('relevance');
+    loadMoreRadio();
+  };
+
+  // Re-ranks the shown candidates. Their tags and listener counts are cached,
+  // so only songs that weren't considered before need looking up.
+  const handleRankingCommit = async (controls: RankingControls) => {
+    setRankingControls(controls);
+    const ranking = rankingRef.current;
+    // While an analysis loads, the candidates still belong to the previous
+    // seed; the new controls apply to the analysis instead
+    if (!ranking || analysisRef.current) return;
+
+    const controller = new AbortController();
+    analysisRef.current = controller;
+    stopRadio();
+    setIsLoading(true);
+
+    try {
+      const deepen = controls.obscurity > 0 && ranking.fetchDeeper;
+      const candidates = deepen ? await ranking.fetchDeeper(controller.signal) : ranking.candidates;
+      const songs = await rankCandidates(
+        candidates,
+        ranking.count,
+        controls,
+        controller.signal,
+        deepen ? undefined : ranking.fetchDeeper
+      );
+      setRecommendations(songs);
+      setTrail((current) =>
+        current.map((step, index) => (index === trailIndex ? { ...step, candidates, recommendations: songs } : step))
+      );
+    } catch (error) {
+      reportAnalysisError(error, () => handleRankingCommit(controls));
+    } finally {
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Scrolling to the end of the list fetches the next batch
+  useEffect(() => {
+    const sentinel = radioSentinelRef.current;
+    if (!radioOn || !sentinel) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMoreRadioRef.current();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [radioOn]);
+
+  // `retry` repeats whatever failed, e.g. a blend or a radio batch
+  const reportAnalysisError = (error: unknown, retry: () => void) => {
+    // A newer analysis, "New Search" or "Cancel" took over; stay quiet
+    if (isAbortError(error)) return;
+
+    console.error('Analysis error:', error);
+    const { title, description, recovery } = describeAnalysisError(error);
+    toast({
+      title,
+      description,
+      variant: "destructive",
+      action: recovery && renderRecoveryAction(recovery, retry),
+    });
+  };
+
+  // Resolves links, artwork, durations, listener counts and estimated audio
+  // features for recommended tracks in one step. Only the shown songs need
+  // tags here, for their audio features and the mood badge.
+  const toSongs = async (tracks: SimilarTrack[], signal: AbortSignal): Promise<Song[]> => {
+    const { buildRecommendations } = await import('@/lib/pipeline');
+    const { getSpotifySearchUrl } = await import('@/lib/api');
+    const { loadTrackStats, getTrackStats } = await import('@/lib/trackStats');
+    const { loadTrackTags, getTrackTags } = await import('@/lib/diversity');
+    const { estimateAudioFeatures } = await import('@/lib/audioFeatures');
+
+    const [resolved] = await Promise.all([
+      buildRecommendations(tracks, signal),
+      loadTrackStats(tracks, signal),
+      loadTrackTags(tracks, signal),
+    ]);
+    signal.throwIfAborted();
+
+    return resolved.map(({ track, link, coverArt, previewUrl, url }) => ({
+      title: track.name,
+      artist: track.artist.name,
+      coverArt,
+      youtubeUrl: url,
+      spotifyUrl: getSpotifySearchUrl(track.name, track.artist.name),
+      previewUrl,
+      durationSeconds: link?.durationSeconds,
+      source: track.source,
+      matchScore: track.match,
+      ...getTrackStats(track),
+      audioFeatures: estimateAudioFeatures(getTrackTags(track)),
+    }));
+  };
+
+  // Re-ranks the best candidates and resolves the top `count`. Hidden gems
+  // need listener counts for every candidate up front.
+  // Blended tracks keep the seeds they matched.
+  const rankCandidates = async (
+    candidates: (SimilarTrack | BlendedTrack)[],
+    count: number,
+    { variety, obscurity, vibe }: RankingControls,
+    signal: AbortSignal,
+    fetchDeeper?: CandidateFetcher
+  ): Promise<Song[]> => {
+    const { loadTrackTags, getTrackTags, diversify } = await import('@/lib/diversity');
+    const { loadTrackStats, getTrackStats } = await import('@/lib/trackStats');
+    const { getObscurityWeight, getPopularityThresholds } = await import('@/lib/popularity');
+    const { estimateAudioFeatures, filterByVibe, getVibeWeight } = await import('@/lib/audioFeatures');
+
+    const hasVibe = vibe.energy !== undefined || vibe.valence !== undefined;
+    const pool = candidates.slice(0, count * (obscurity > 0 || hasVibe ? DEEP_CANDIDATES_PER_PICK : CANDIDATES_PER_PICK));
+    // Tags only matter for vibe targets and for telling styles apart
+    await Promise.all([
+      (hasVibe || variety > 0) && loadTrackTags(pool, signal),
+      obscurity > 0 && loadTrackStats(pool, signal),
+    ]);
+    const thresholds = getPopularityThresholds();
+    const getFeatures = (track: SimilarTrack) => estimateAudioFeatures(getTrackTags(track));
+    const onVibe = hasVibe ? filterByVibe<SimilarTrack | BlendedTrack>(pool, getFeatures, vibe, count) : pool;
+    const picks = diversify(onVibe, variety, {
+      weigh: (track) =>
+        getObscurityWeight(getTrackStats(track).listeners, obscurity, thresholds) * getVibeWeight(getFeatures(track), vibe),
+    }).slice(0, count);
+    const songs = await toSongs(picks, signal);
+
+    rankingRef.current = { candidates, count, fetchDeeper };
+    return songs.map((song, index) => {
+      const pick = picks[index];
+      return 'seeds' in pick ? { ...song, matchedSeeds: pick.seeds } : song;
+    });
+  };
+
+  // Deep similar lists for one seed. Lists fetched deep before come from the
+  // response cache.
+  const fetchDeepSimilar = (seed: TrackRef): CandidateFetcher => async (signal) => {
+    const { findSimilarTracks } = await import('@/lib/pipeline');
+    return findSimilarTracks(seed, signal, DEEP_SIMILAR_LIMIT);
+  };
+
+  // The top similar tracks from every configured provider
+  const recommendFor = async (seed: TrackRef, signal: AbortSignal): Promise<Omit<TrailStep, 'song' | 'seedConfidence'>> => {
+    const { findSimilarTracks } = await import('@/lib/pipeline');
+    const candidates = await findSimilarTracks(seed, signal, getSimilarLimit(rankingControls.obscurity));
+    const fetchDeeper = rankingControls.obscurity > 0 ? undefined : fetchDeepSimilar(seed);
+    return {
+      candidates,
+      recommendations: await rankCandidates(candidates, SEED_RECOMMENDATIONS, rankingControls, signal, fetchDeeper),
+    };
+  };
+
+  const showTrailStep = (step: TrailStep) => {
+    rankingRef.current = { candidates: step.candidates, count: SEED_RECOMMENDATIONS, fetchDeeper: fetchDeepSimilar(step.song) };
+    setCurrentSong(step.song);
+    setSeedConfidence(step.seedConfidence);
+    setRecommendations(step.recommendations);
+    setRecommendationFilter('all');
+  };
+
+  // Back, forward and breadcrumb clicks: every step keeps its results, so
+  // there's nothing to fetch
+  const handleTrailNavigate = (index: number) => {
+    const step = trail[index];
+    if (!step) return;
+    analysisRef.current?.abort();
+    setTrailIndex(index);
+    showTrailStep(step);
+  };
+
+  // Clicking a recommendation makes it the new seed. Steps after the current
+  // one are dropped, like browser history.
+  const handleSelectRecommendation = async (song: Song) => {
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+
+    try {
+      // The matched seeds only describe the song's place in a blend
+      const seedSong: Song = { ...song, source: undefined, matchScore: undefined, matchedSeeds: undefined, radioSeed: undefined };
+      const step: TrailStep = { song: seedSong, ...(await recommendFor(seedSong, signal)), seedConfidence: null };
+
+      // Picking from a playlist or blend starts a trail of its own
+      const kept = trailIndex >= 0 ? trail.slice(0, trailIndex + 1) : [];
+      const nextTrail = [...kept, step].slice(-MAX_TRAIL_STEPS);
+      setTrail(nextTrail);
+      setTrailIndex(nextTrail.length - 1);
+      setPlaylistProgress(null);
+      setBlendedFrom(null);
+      showTrailStep(step);
+    } catch (error) {
+      reportAnalysisError(error, () => handleSelectRecommendation(song));
+    } finally {
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Every playlist item becomes a seed; their similar tracks are blended into
+  // one list, minus songs the playlist already has. Items we can't identify
+  // confidently are skipped rather than asking about each one.
+  const analyzePlaylist = async (signal: AbortSignal) => {
+    const { resolvePlaylistMedia, identifySeed, findSimilarTracks } = await import('@/lib/pipeline');
+    const { blendSimilarTracks } = await import('@/lib/blend');
+    const { mapWithConcurrency } = await import('@/lib/concurrency');
+
+    const items = await resolvePlaylistMedia(youtubeUrl, signal);
+    if (!items) {
+      throw new Error(demoMode ? "Playlists aren't available in demo mode" : 'Invalid YouTube playlist URL');
+    }
+    if (items.length === 0) {
+      throw new Error('This playlist has no playable videos');
+    }
+
+    setCurrentSong(null);
+    setSeedConfidence(null);
+    setRecommendations([]);
+    setBlendedFrom(null);
+    setTrail([]);
+    setTrailIndex(-1);
+    setPlaylistProgress(items.map((media) => ({ media, status: 'waiting' })));
+
+    const updateItem = (index: number, update: Partial<PlaylistSeedProgress>) =>
+      setPlaylistProgress((current) => current && current.map((item, i) => (i === index ? { ...item, ...update } : item)));
+
+    let firstError: unknown = null;
+    // Every song the playlist has, including ones too uncertain to seed from
+    const playlistSongs: TrackRef[] = [];
+    const results = await mapWithConcurrency(items, SEED_CONCURRENCY, async (media, index) => {
+      updateItem(index, { status: 'matching' });
+      try {
+        let seed: TrackRef = getSeedChoice(media.id);
+        if (!seed) {
+          const match = await identifySeed(media, signal);
+          playlistSongs.push(match.candidate);
+          if (!match.track || match.confidence < LOW_CONFIDENCE_THRESHOLD) {
+            updateItem(index, { status: 'unmatched' });
+            return null;
+          }
+          seed = { title: match.track.name, artist: match.track.artist.name };
+        }
+        playlistSongs.push(seed);
+
+        const tracks = await findSimilarTracks(seed, signal, getSimilarLimit(rankingControls.obscurity));
+        updateItem(index, { status: 'done', seed, similarCount: tracks.length });
+        return { seed, tracks };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error(`Error analyzing playlist item ${media.id}:`, error);
+        firstError ??= error;
+        updateItem(index, { status: 'failed' });
+        return null;
+      }
+    });
+    signal.throwIfAborted();
+
+    const seedResults = results.filter((result) => result !== null);
+    // Nothing worked, e.g. a bad key; report that rather than an empty list
+    if (seedResults.length === 0) {
+      throw firstError ?? new Error("We couldn't identify any song in this playlist");
+    }
+
+    const blended = blendSimilarTracks(seedResults, playlistSongs);
+    const fetchDeeper: CandidateFetcher = async (deepSignal) =>
+      blendSimilarTracks(await mapWithConcurrency(seedResults, SEED_CONCURRENCY, async ({ seed }) => ({
+        seed,
+        tracks: await findSimilarTracks(seed, deepSignal, DEEP_SIMILAR_LIMIT),
+      })), playlistSongs);
+    const songs = await rankCandidates(
+      blended,
+      BLENDED_RECOMMENDATIONS,
+      rankingControls,
+      signal,
+      rankingControls.obscurity > 0 ? undefined : fetchDeeper
+    );
+
+    setRecommendations(songs);
+    setRecommendationFilter('all');
+    addToHistory(youtubeUrl, 'Playlist', `${seedResults.length} of ${items.length} songs`);
+
+    toast({
+      title: "Playlist Analyzed!",
+      description: `Blended recommendations from ${seedResults.length} of ${items.length} songs`,
+    });
+  };
+
+  // Blends the similar tracks of every pinned seed, weighted by its slider
+  const handleBlendSeeds = async () => {
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
+    const { signal } = controller;
+    const seeds = pinnedSeeds;
+
+    setIsLoading(true);
+
+    try {
+      const { findSimilarTracks } = await import('@/lib/pipeline');
+      const { blendSimilarTracks } = await import('@/lib/blend');
+      const { mapWithConcurrency } = await import('@/lib/concurrency');
+
+      const blendSeeds = async (limit: number | undefined, blendSignal: AbortSignal) =>
+        blendSimilarTracks(await mapWithConcurrency(seeds, SEED_CONCURRENCY, async (seed) => ({
+          seed,
+          tracks: await findSimilarTracks(seed, blendSignal, limit),
+          weight: seed.weight,
+        })));
+      const blended = await blendSeeds(getSimilarLimit(rankingControls.obscurity), signal);
+      const songs = await rankCandidates(
+        blended,
+        BLENDED_RECOMMENDATIONS,
+        rankingControls,
+        signal,
+        rankingControls.obscurity > 0 ? undefined : (deepSignal) => blendSeeds(DEEP_SIMILAR_LIMIT, deepSignal)
+      );
+
+      setCurrentSong(null);
+      setSeedConfidence(null);
+      setPlaylistProgress(null);
+      setTrail([]);
+      setTrailIndex(-1);
+      setBlendedFrom(seeds);
+      setRecommendations(songs);
+      setRecommendationFilter('all');
+
+      toast({
+        title: "Seeds Blended!",
+        description: `Found ${songs.length} songs for your ${seeds.length} seeds`,
+      });
+    } catch (error) {
+      reportAnalysisError(error, handleBlendSeeds);
+    } finally {
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!youtubeUrl.trim()) {
       toast({
@@ -83,7 +745,8 @@ export const MusicDiscovery = () => {
       return;
     }
 
-    if (!isValidYouTubeUrl(youtubeUrl)) {
+    const parsedUrl = parseYouTubeUrl(youtubeUrl);
+    if (!parsedUrl) {
       toast({
         title: "Invalid URL",
         description: "Please enter a valid YouTube URL",
@@ -92,59 +755,74 @@ export const MusicDiscovery = () => {
       return;
     }
 
+    // Starting a new analysis cancels the previous one
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
+    const { signal } = controller;
+
     setIsLoading(true);
     
     try {
-      const { extractVideoId, getYouTubeVideoDetails, searchLastFmTrack, getSimilarTracks, searchYouTubeForTrack } = await import('@/lib/api');
-      
-      // Extract video ID from YouTube URL
-      const videoId = extractVideoId(youtubeUrl);
-      if (!videoId) {
-        throw new Error('Invalid YouTube URL');
+      if (parsedUrl.kind === 'playlist') {
+        await analyzePlaylist(signal);
+        return;
       }
+      setPlaylistProgress(null);
+      setBlendedFrom(null);
 
-      // Get YouTube video details
-      const youtubeDetails = await getYouTubeVideoDetails(videoId);
+      const { resolveSeedMedia, identifySeed } = await import('@/lib/pipeline');
       
-      // Search for the track on Last.fm
-      const lastFmTrack = await searchLastFmTrack(youtubeDetails.title, youtubeDetails.channelTitle);
+      // Look up the video (or whatever the configured providers resolve the URL to)
+      const media = await resolveSeedMedia(youtubeUrl, signal);
+      if (!media) {
+        throw new Error('Invalid YouTube URL');
+      }
       
+      // A song picked by hand for this video before skips matching entirely
+      let seed = getSeedChoice(media.id);
+      let confidence: number | null = null;
+
+      if (!seed) {
+        // Parse artist/title out of the video and match it on Last.fm
+        const match = await identifySeed(media, signal);
+        signal.throwIfAborted();
+
+        seed = {
+          title: match.track?.name || match.candidate.title,
+          artist: match.track?.artist.name || match.candidate.artist,
+        };
+        confidence = match.confidence;
+
+        // Covers, common titles and non-Latin titles: ask before recommending
+        if (isAmbiguousMatch(match.alternatives)) {
+          seed = await askForSeed({
+            videoTitle: media.title,
+            alternatives: match.alternatives,
+            initialChoice: { artist: match.candidate.artist, title: match.candidate.title },
+          }, signal);
+          rememberSeedChoice(media.id, seed);
+          confidence = null;
+        }
+      }
+
       const currentSong: Song = {
-        title: lastFmTrack?.name || youtubeDetails.title,
-        artist: lastFmTrack?.artist?.name || youtubeDetails.channelTitle,
-        coverArt: youtubeDetails.thumbnail,
+        title: seed.title,
+        artist: seed.artist,
+        coverArt: media.thumbnail,
         youtubeUrl: youtubeUrl,
       };
 
       setCurrentSong(currentSong);
+      setSeedConfidence(confidence);
       addToHistory(youtubeUrl, currentSong.title, currentSong.artist);
 
-      // Get similar tracks from Last.fm
-      const similarTracks = await getSimilarTracks(
-        currentSong.title,
-        currentSong.artist
-      );
-
-      // Convert similar tracks to our Song format and search for YouTube URLs
-      const recommendations: Song[] = await Promise.all(
-        similarTracks.slice(0, 8).map(async (track) => {
-          const youtubeUrl = await searchYouTubeForTrack(track.name, track.artist.name);
-          const { getBestCoverArt, getSpotifySearchUrl } = await import('@/lib/api');
-          
-          // Get the best cover art with multiple fallbacks
-          const coverArt = await getBestCoverArt(track, track.name, track.artist.name);
-          
-          return {
-            title: track.name,
-            artist: track.artist.name,
-            coverArt: coverArt,
-            youtubeUrl: youtubeUrl || undefined,
-            spotifyUrl: getSpotifySearchUrl(track.name, track.artist.name),
-          };
-        })
-      );
-
+      const { recommendations, candidates } = await recommendFor(currentSong, signal);
       setRecommendations(recommendations);
+      setRecommendationFilter('all');
+      // A new URL starts a new trail
+      setTrail([{ song: currentSong, recommendations, seedConfidence: confidence, candidates }]);
+      setTrailIndex(0);
       
       toast({
         title: "Analysis Complete!",
@@ -152,25 +830,62 @@ export const MusicDiscovery = () => {
       });
 
     } catch (error) {
-      console.error('Analysis error:', error);
-      toast({
-        title: "Analysis Failed",
-        description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
-        variant: "destructive"
-      });
+      reportAnalysisError(error, handleAnalyze);
     } finally {
-      setIsLoading(false);
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
+  const handleCancelAnalysis = () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    setIsLoading(false);
+    toast({
+      title: "Analysis Cancelled",
+      description: "Stopped looking for similar songs.",
+    });
+  };
+
+  const renderRecoveryAction = (recovery: Recovery, retry: () => void) => {
+    switch (recovery) {
+      case 'retry':
+        return <ToastAction altText="Try again" onClick={retry}>Retry</ToastAction>;
+      case 'history':
+        return <ToastAction altText="Show search history" onClick={() => setShowHistory(true)}>History</ToastAction>;
+      case 'new-search':
+        return <ToastAction altText="Start a new search" onClick={handleClearCurrent}>New Search</ToastAction>;
+      case 'keys':
+        return <ToastAction altText="Set up API keys" onClick={() => setShowSetup(true)}>Set Up Keys</ToastAction>;
+    }
+  };
+
+  const handleTryDemo = () => {
+    setDemoMode(true);
+    toast({
+      title: "Demo Mode On",
+      description: "Pick one of the sample songs to try Song Lens without API keys.",
+    });
+  };
+
   const handleHistoryItemClick = (historyItem: SearchHistory) => {
     setYoutubeUrl(historyItem.url);
     setShowHistory(false);
   };
 
   const handleClearCurrent = () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    setIsLoading(false);
     setCurrentSong(null);
+    setSeedConfidence(null);
     setRecommendations([]);
+    setPlaylistProgress(null);
+    setBlendedFrom(null);
+    setTrail([]);
+    setTrailIndex(-1);
     setYoutubeUrl("");
   };
 
@@ -198,16 +913,17 @@ export const MusicDiscovery = () => {
   };
 
   // Calculate overall mood of recommendations
+  // Songs without an estimate don't pull the average toward the middle
+  const averageFeature = (feature: 'energy' | 'valence') => {
+    const values = recommendations.flatMap((song) => song.audioFeatures?.[feature] ?? []);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0.5;
+  };
+
   const getOverallMood = () => {
     if (recommendations.length === 0) return null;
     
-    const avgValence = recommendations.reduce((sum, song) => {
-      return sum + (song.audioFeatures?.valence || 0.5);
-    }, 0) / recommendations.length;
-    
-    const avgEnergy = recommendations.reduce((sum, song) => {
-      return sum + (song.audioFeatures?.energy || 0.5);
-    }, 0) / recommendations.length;
+    const avgValence = averageFeature('valence');
+    const avgEnergy = averageFeature('energy');
     
     if (avgValence > 0.7 && avgEnergy > 0.7) return { emoji: '🎉', text: 'High Energy & Happy', color: 'text-yellow-400' };
     if (avgValence > 0.7) return { emoji: '😊', text: 'Happy & Upbeat', color: 'text-green-400' };
@@ -218,6 +934,7 @@ export const MusicDiscovery = () => {
   };
 
   const overallMood = getOverallMood();
+  const visibleRecommendations = sortAndFilterRecommendations(recommendations, recommendationSort, recommendationFilter);
 
   return (
     <div className="min-h-screen bg-background relative overflow-hidden">
@@ -251,6 +968,12 @@ export const MusicDiscovery = () => {
               and YouTube's vast library of music videos.
             </p>
 
+            {demoMode && (
+              <div className="max-w-3xl mx-auto">
+                <DemoBanner onTryUrl={setYoutubeUrl} />
+              </div>
+            )}
+
             {/* Enhanced URL Input */}
             <Card className="max-w-3xl mx-auto glass-card hover-lift">
               <CardContent className="p-8">
@@ -261,7 +984,6 @@ export const MusicDiscovery = () => {
                       value={youtubeUrl}
                       onChange={(e) => setYoutubeUrl(e.target.value)}
                       className="text-lg h-14 pr-12 bg-background/50 border-border/50 focus:border-primary transition-colors"
-                      disabled={isLoading}
                     />
                     {youtubeUrl && (
                       <Button
@@ -276,7 +998,7 @@ export const MusicDiscovery = () => {
                   </div>
                   <Button
                     onClick={handleAnalyze}
-                    disabled={isLoading}
+                    title={isLoading ? "Restart the analysis with this URL" : undefined}
                     className="h-14 px-8 bg-gradient-music hover:opacity-90 transition-all duration-300 hover:scale-105"
                   >
                     {isLoading ? (
@@ -291,6 +1013,16 @@ export const MusicDiscovery = () => {
                       </>
                     )}
                   </Button>
+                  {isLoading && (
+                    <Button
+                      variant="outline"
+                      onClick={handleCancelAnalysis}
+                      className="h-14 px-4 border-border/50 hover:bg-destructive/10 hover:text-destructive"
+                    >
+                      <X className="w-5 h-5 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
@@ -300,7 +1032,23 @@ export const MusicDiscovery = () => {
                   >
                     <History className="w-5 h-5" />
                   </Button>
+                  <Button
+                    asChild
+                    variant="outline"
+                    size="sm"
+                    className="h-14 px-4 border-border/50 hover:bg-accent/50"
+                    title="Settings"
+                  >
+                    <Link to="/settings">
+                      <Settings className="w-5 h-5" />
+                    </Link>
+                  </Button>
                 </div>
+                {!demoMode && (
+                  <div className="mt-4 flex justify-center">
+                    <QuotaBadge />
+                  </div>
+                )}
                 
                 {/* Enhanced Search History Dropdown */}
                 {showHistory && searchHistory.length > 0 && (
@@ -340,16 +1088,36 @@ export const MusicDiscovery = () => {
                 )}
               </CardContent>
             </Card>
+
+            {pinnedSeeds.length > 0 && (
+              <div className="max-w-3xl mx-auto mt-6 text-left">
+                <PinnedSeeds
+                  seeds={pinnedSeeds}
+                  isBlending={isLoading}
+                  onWeightChange={handleSeedWeightChange}
+                  onRemove={(index) => setPinnedSeeds(pinnedSeeds.filter((_, i) => i !== index))}
+                  onClear={() => setPinnedSeeds([])}
+                  onBlend={handleBlendSeeds}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Results Section */}
-      {(currentSong || recommendations.length > 0) && (
+      {(currentSong || playlistProgress || recommendations.length > 0) && (
         <div className="container mx-auto px-4 py-16 relative z-10">
           {/* Current Song */}
           {currentSong && (
             <div className="mb-16">
+              {trail.length > 1 && (
+                <DiscoveryTrail
+                  songs={trail.map((step) => step.song)}
+                  index={trailIndex}
+                  onNavigate={handleTrailNavigate}
+                />
+              )}
               <div className="flex items-center justify-between mb-8">
                 <h2 className="text-3xl font-bold flex items-center gap-3">
                   <div className="w-12 h-12 bg-gradient-music rounded-xl flex items-center justify-center">
@@ -379,35 +1147,175 @@ export const MusicDiscovery = () => {
                   </Button>
                 </div>
               </div>
-              <SongCard {...currentSong} />
+              <SongCard {...currentSong} isPinned={isPinned(currentSong)} onTogglePin={() => togglePin(currentSong)} />
+              {seedConfidence !== null && seedConfidence < LOW_CONFIDENCE_THRESHOLD && (
+                <Alert className="mt-4 glass-card border-yellow-500/50 text-yellow-500">
+                  <AlertTriangle className="h-4 w-4 !text-yellow-500" />
+                  <AlertTitle>Is this the right song?</AlertTitle>
+                  <AlertDescription className="text-muted-foreground">
+                    We're only {Math.round(seedConfidence * 100)}% sure this matches the video, so the
+                    recommendations below may be off. Try a URL with a clearer "Artist - Title" video title.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          {/* Playlist seeds */}
+          {playlistProgress && !currentSong && (
+            <div className="mb-16">
+              <div className="flex justify-end mb-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleClearCurrent}
+                  className="border-border/50 hover:bg-accent/50"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  New Search
+                </Button>
+              </div>
+              <PlaylistProgress items={playlistProgress} />
             </div>
           )}
 
           {/* Recommendations */}
           {recommendations.length > 0 && (
             <div>
-              <div className="flex items-center justify-between mb-8">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
                 <h2 className="text-3xl font-bold flex items-center gap-3">
                   <div className="w-12 h-12 bg-gradient-music rounded-xl flex items-center justify-center">
                     <Sparkles className="w-6 h-6 text-white" />
                   </div>
-                  Similar Songs You Might Like
+                  {blendedFrom ? `Blended From Your ${blendedFrom.length} Seeds` : "Similar Songs You Might Like"}
                 </h2>
-                {overallMood && (
+                <div className="flex flex-wrap items-center justify-end gap-3">
                   <div className="flex items-center gap-3 px-4 py-2 glass-card rounded-full">
-                    <span className="text-2xl">{overallMood.emoji}</span>
-                    <span className={`text-sm font-medium ${overallMood.color}`}>{overallMood.text}</span>
+                    <Shuffle className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Variety</span>
+                    <Slider
+                      value={[rankingControls.variety]}
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      onValueChange={([variety]) => setRankingControls((current) => ({ ...current, variety }))}
+                      onValueCommit={([variety]) => handleRankingCommit({ ...rankingControls, variety })}
+                      disabled={isLoading}
+                      aria-label="Variety"
+                      className="w-28"
+                    />
+                  </div>
+                  <div
+                    className="flex items-center gap-3 px-4 py-2 glass-card rounded-full"
+                    title="Favor close matches with few listeners over hits. Popularity thresholds are in Settings."
+                  >
+                    <Gem className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Obscurity</span>
+                    <Slider
+                      value={[rankingControls.obscurity]}
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      onValueChange={([obscurity]) => setRankingControls((current) => ({ ...current, obscurity }))}
+                      onValueCommit={([obscurity]) => handleRankingCommit({ ...rankingControls, obscurity })}
+                      disabled={isLoading}
+                      aria-label="Obscurity"
+                      className="w-28"
+                    />
+                  </div>
+                  <VibeControls
+                    targets={rankingControls.vibe}
+                    onChange={(vibe) => setRankingControls((current) => ({ ...current, vibe }))}
+                    onCommit={(vibe) => handleRankingCommit({ ...rankingControls, vibe })}
+                    disabled={isLoading}
+                  />
+                  {overallMood && (
+                    <div className="flex items-center gap-3 px-4 py-2 glass-card rounded-full">
+                      <span className="text-2xl">{overallMood.emoji}</span>
+                      <span className={`text-sm font-medium ${overallMood.color}`}>{overallMood.text}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center justify-end gap-3 mb-6">
+                {currentSong && (
+                  <div className="flex items-center gap-3 mr-auto px-4 py-2 glass-card rounded-full">
+                    <Radio className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Radio</span>
+                    <Switch checked={radioOn} onCheckedChange={handleRadioToggle} aria-label="Radio mode" />
+                    {radioOn && (
+                      <>
+                        <span className="text-xs text-muted-foreground">Stay close</span>
+                        <Slider
+                          value={[radioDrift]}
+                          min={0}
+                          max={1}
+                          step={0.1}
+                          onValueChange={([drift]) => {
+                            setRadioDrift(drift);
+                            // Wandering further may find songs again
+                            setRadioDry(false);
+                          }}
+                          aria-label="Drift"
+                          className="w-28"
+                        />
+                        <span className="text-xs text-muted-foreground">Wander</span>
+                      </>
+                    )}
                   </div>
                 )}
+                <Select value={recommendationFilter} onValueChange={(value) => setRecommendationFilter(value as RecommendationFilter)}>
+                  <SelectTrigger className="w-44 glass-card border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All sources</SelectItem>
+                    <SelectItem value="similar">Similar only</SelectItem>
+                    <SelectItem value="artist">Same artist only</SelectItem>
+                    <SelectItem value="title">Title matches only</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={recommendationSort} onValueChange={(value) => setRecommendationSort(value as RecommendationSort)}>
+                  <SelectTrigger className="w-44 glass-card border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="relevance">Last.fm order</SelectItem>
+                    <SelectItem value="score">Highest score</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
               <div className="grid gap-6">
-                {recommendations.map((song, index) => (
+                {visibleRecommendations.map((song, index) => (
                   <SongCard 
-                    key={index} 
+                    key={`${song.artist}-${song.title}`} 
                     {...song}
-                    onSelect={() => setCurrentSong(song)}
+                    seed={song.radioSeed ?? (currentSong ? { title: currentSong.title, artist: currentSong.artist } : song.matchedSeeds?.[0])}
+                    onSelect={() => handleSelectRecommendation(song)}
+                    onPlay={radioOn && index >= visibleRecommendations.length - RADIO_PREFETCH_DISTANCE ? loadMoreRadio : undefined}
+                    isPinned={isPinned(song)}
+                    onTogglePin={() => togglePin(song)}
                   />
                 ))}
+                {visibleRecommendations.length === 0 && (
+                  <p className="text-center text-muted-foreground py-8">
+                    No recommendations from this source. Try showing all sources.
+                  </p>
+                )}
+                {radioOn && (
+                  <div ref={radioSentinelRef} className="flex justify-center py-6 text-sm text-muted-foreground">
+                    {radioLoading ? (
+                      <span className="flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Tuning in more songs...
+                      </span>
+                    ) : radioDry ? (
+                      "That's everything we could find nearby. Try more drift or another seed."
+                    ) : (
+                      "Scroll for more"
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -415,7 +1323,7 @@ export const MusicDiscovery = () => {
       )}
 
       {/* Enhanced Features Section */}
-      {!currentSong && (
+      {!currentSong && !playlistProgress && !blendedFrom && (
         <div className="container mx-auto px-4 py-20 relative z-10">
           <div className="text-center mb-16">
             <h2 className="text-4xl font-bold mb-6 gradient-text">How It Works</h2>
@@ -469,6 +1377,19 @@ export const MusicDiscovery = () => {
           </div>
         </div>
       )}
+
+      {seedPicker && (
+        <SeedPickerDialog
+          open
+          videoTitle={seedPicker.videoTitle}
+          alternatives={seedPicker.alternatives}
+          initialChoice={seedPicker.initialChoice}
+          onPick={handleSeedPicked}
+          onCancel={handleCancelAnalysis}
+        />
+      )}
+
+      <SetupWizard open={showSetup} onOpenChange={setShowSetup} onTryDemo={handleTryDemo} />
     </div>
   );
 };
@@ -0,0 +1,90 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Blend, Loader2, Music, Pin, X } from "lucide-react";
+
+export interface PinnedSeed {
+  title: string;
+  artist: string;
+  coverArt?: string;
+  // 0.1 (barely) to 1 (full say in the blend)
+  weight: number;
+}
+
+interface PinnedSeedsProps {
+  seeds: PinnedSeed[];
+  isBlending: boolean;
+  onWeightChange: (index: number, weight: number) => void;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+  onBlend: () => void;
+}
+
+export const MIN_BLEND_SEEDS = 2;
+export const MAX_PINNED_SEEDS = 10;
+
+export const PinnedSeeds = ({ seeds, isBlending, onWeightChange, onRemove, onClear, onBlend }: PinnedSeedsProps) => (
+  <Card className="glass-card">
+    <CardHeader>
+      <CardTitle className="flex items-center justify-between gap-3 text-lg">
+        <span className="flex items-center gap-2">
+          <Pin className="w-5 h-5 text-primary" />
+          Pinned seeds
+          <span className="text-sm font-normal text-muted-foreground">
+            {seeds.length} / {MAX_PINNED_SEEDS}
+          </span>
+        </span>
+        <Button variant="ghost" size="sm" onClick={onClear} className="text-muted-foreground hover:text-destructive">
+          Clear
+        </Button>
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {seeds.map((seed, index) => (
+        <div key={`${seed.artist}-${seed.title}`} className="flex items-center gap-3">
+          {seed.coverArt ? (
+            <img src={seed.coverArt} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+          ) : (
+            <div className="w-10 h-10 rounded bg-gradient-music flex items-center justify-center flex-shrink-0">
+              <Music className="w-4 h-4 text-white" />
+            </div>
+          )}
+          <div className="w-40 min-w-0">
+            <p className="text-sm font-medium truncate">{seed.title}</p>
+            <p className="text-xs text-muted-foreground truncate">{seed.artist}</p>
+          </div>
+          <Slider
+            value={[seed.weight]}
+            min={0.1}
+            max={1}
+            step={0.1}
+            onValueChange={([weight]) => onWeightChange(index, weight)}
+            aria-label={`Weight of ${seed.title}`}
+            className="flex-1"
+          />
+          <span className="w-10 text-right text-xs text-muted-foreground">{Math.round(seed.weight * 100)}%</span>
+          <Button variant="ghost" size="sm" onClick={() => onRemove(index)} title="Unpin" className="px-2">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          {seeds.length < MIN_BLEND_SEEDS
+            ? `Pin at least ${MIN_BLEND_SEEDS} songs to blend them.`
+            : "Heavier seeds count for more; songs several seeds agree on rank highest."}
+        </p>
+        <Button
+          onClick={onBlend}
+          disabled={seeds.length < MIN_BLEND_SEEDS || isBlending}
+          className="bg-gradient-music hover:opacity-90"
+        >
+          {isBlending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Blend className="w-4 h-4 mr-2" />}
+          Blend {seeds.length} seeds
+        </Button>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default PinnedSeeds;
@@ -0,0 +1,79 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Clock, HelpCircle, ListMusic, Loader2, XCircle } from "lucide-react";
+import type { SeedMedia, TrackRef } from "@/lib/providers/types";
+
+export type PlaylistSeedStatus = 'waiting' | 'matching' | 'done' | 'unmatched' | 'failed';
+
+export interface PlaylistSeedProgress {
+  media: SeedMedia;
+  status: PlaylistSeedStatus;
+  // Set once the item is identified
+  seed?: TrackRef;
+  similarCount?: number;
+}
+
+interface PlaylistProgressProps {
+  items: PlaylistSeedProgress[];
+}
+
+const STATUS_ICONS: Record<PlaylistSeedStatus, JSX.Element> = {
+  waiting: <Clock className="w-4 h-4 text-muted-foreground" />,
+  matching: <Loader2 className="w-4 h-4 text-primary animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-green-500" />,
+  unmatched: <HelpCircle className="w-4 h-4 text-yellow-500" />,
+  failed: <XCircle className="w-4 h-4 text-destructive" />,
+};
+
+const describeItem = ({ status, seed, similarCount }: PlaylistSeedProgress) => {
+  switch (status) {
+    case 'waiting':
+      return "Waiting";
+    case 'matching':
+      return "Finding on Last.fm...";
+    case 'done':
+      return `${seed?.artist} - ${seed?.title} · ${similarCount ?? 0} similar`;
+    case 'unmatched':
+      return "Couldn't tell which song this is; skipped";
+    case 'failed':
+      return "Lookup failed; skipped";
+  }
+};
+
+export const PlaylistProgress = ({ items }: PlaylistProgressProps) => {
+  const finished = items.filter((item) => item.status !== 'waiting' && item.status !== 'matching').length;
+  const matched = items.filter((item) => item.status === 'done').length;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-3 text-lg">
+          <span className="flex items-center gap-2">
+            <ListMusic className="w-5 h-5 text-primary" />
+            Playlist songs
+          </span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {finished} / {items.length} looked up · {matched} used as seeds
+          </span>
+        </CardTitle>
+        <Progress value={items.length ? (finished / items.length) * 100 : 0} className="h-2" />
+      </CardHeader>
+      <CardContent className="max-h-80 overflow-y-auto space-y-2">
+        {items.map((item, index) => (
+          <div key={`${item.media.id}-${index}`} className="flex items-center gap-3 text-sm">
+            {STATUS_ICONS[item.status]}
+            {item.media.thumbnail && (
+              <img src={item.media.thumbnail} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className="truncate">{item.media.title}</p>
+              <p className="text-xs text-muted-foreground truncate">{describeItem(item)}</p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlaylistProgress;
@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { usePopularityThresholds } from "@/hooks/use-popularity-thresholds";
+import { resetPopularityThresholds, setPopularityThresholds } from "@/lib/popularity";
+
+export const PopularitySettings = () => {
+  const thresholds = usePopularityThresholds();
+  const [gemBelow, setGemBelow] = useState(String(thresholds.gemBelow));
+  const [hitAbove, setHitAbove] = useState(String(thresholds.hitAbove));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setGemBelow(String(thresholds.gemBelow));
+    setHitAbove(String(thresholds.hitAbove));
+  }, [thresholds.gemBelow, thresholds.hitAbove]);
+
+  const handleSave = () => {
+    try {
+      setPopularityThresholds({ gemBelow: Number(gemBelow), hitAbove: Number(hitAbove) });
+      toast({
+        title: "Thresholds Saved",
+        description: "Hidden gems and the obscurity slider use the new listener counts.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save thresholds",
+        description: error instanceof Error ? error.message : "Please check the numbers and try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="gem-below">Hidden gem below</Label>
+          <Input id="gem-below" type="number" min={1} value={gemBelow} onChange={(e) => setGemBelow(e.target.value)} />
+          <p className="text-xs text-muted-foreground">Listeners. Never held back by the obscurity slider.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="hit-above">Hit above</Label>
+          <Input id="hit-above" type="number" min={1} value={hitAbove} onChange={(e) => setHitAbove(e.target.value)} />
+          <p className="text-xs text-muted-foreground">Listeners. Held back the most at full obscurity.</p>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={resetPopularityThresholds}>
+          Reset
+        </Button>
+        <Button onClick={handleSave} className="bg-gradient-music hover:opacity-90">
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PopularitySettings;
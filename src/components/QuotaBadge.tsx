@@ -0,0 +1,33 @@
+import { Gauge } from "lucide-react";
+import { useQuotaBudget } from "@/hooks/use-quota";
+
+const LEVEL_STYLES = {
+  ok: 'text-muted-foreground',
+  low: 'text-orange-400',
+  exhausted: 'text-destructive',
+};
+
+const LEVEL_HINTS = {
+  ok: '',
+  low: ' · resolving YouTube links for top picks only',
+  exhausted: ' · YouTube links paused until the daily reset',
+};
+
+export const QuotaBadge = () => {
+  const { remaining, total, level } = useQuotaBudget();
+
+  return (
+    <div
+      className={`flex items-center gap-2 text-xs ${LEVEL_STYLES[level]}`}
+      title="Estimated YouTube Data API units left today (resets at midnight Pacific time). For the server's keys this is a per-instance estimate: each server instance counts only the calls it handled."
+    >
+      <Gauge className="w-4 h-4" />
+      <span>
+        YouTube budget: {remaining.toLocaleString()} / {total.toLocaleString()} units
+        {LEVEL_HINTS[level]}
+      </span>
+    </div>
+  );
+};
+
+export default QuotaBadge;
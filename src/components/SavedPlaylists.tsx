@@ -0,0 +1,65 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { ListMusic, Trash2, Youtube } from "lucide-react";
+import {
+  deleteSavedPlaylist,
+  getSavedPlaylists,
+  getYouTubePlaylistUrl,
+  subscribeToSavedPlaylists,
+  type SavedPlaylist,
+} from "@/lib/savedPlaylists";
+
+export const SavedPlaylists = () => {
+  const [playlists, setPlaylists] = useState<SavedPlaylist[]>(getSavedPlaylists);
+
+  useEffect(() => subscribeToSavedPlaylists(() => setPlaylists(getSavedPlaylists())), []);
+
+  if (playlists.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No saved playlists yet. Click through recommendations, then save the trail from the results page.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {playlists.map((playlist) => {
+        const youtubeUrl = getYouTubePlaylistUrl(playlist.songs);
+        return (
+          <div key={playlist.id} className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <ListMusic className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{playlist.name}</p>
+                <p className="text-xs text-muted-foreground truncate" title={playlist.songs.map((song) => `${song.artist} - ${song.title}`).join('\n')}>
+                  {playlist.songs.length} songs · {new Date(playlist.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {youtubeUrl && (
+                <Button variant="outline" size="sm" asChild title="Open on YouTube">
+                  <a href={youtubeUrl} target="_blank" rel="noopener noreferrer">
+                    <Youtube className="w-4 h-4" />
+                  </a>
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deleteSavedPlaylist(playlist.id)}
+                className="border-border/50 hover:bg-destructive/10 hover:text-destructive"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SavedPlaylists;
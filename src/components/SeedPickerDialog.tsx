@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Music, Users, Check } from "lucide-react";
+import type { ScoredTrack } from "@/lib/seedMatching";
+import type { SeedChoice } from "@/lib/seedChoices";
+
+interface SeedPickerDialogProps {
+  open: boolean;
+  videoTitle: string;
+  alternatives: ScoredTrack[];
+  // Prefills the manual fields with our best parse of the video title
+  initialChoice: SeedChoice;
+  onPick: (choice: SeedChoice) => void;
+  onCancel: () => void;
+}
+
+const MAX_CHOICES = 5;
+
+const formatListeners = (listeners?: number) =>
+  listeners === undefined
+    ? "Unknown listeners"
+    : `${new Intl.NumberFormat(undefined, { notation: "compact" }).format(listeners)} listeners`;
+
+// Largest non-empty image Last.fm gave us for the track
+const getTrackImage = (track: ScoredTrack["track"]) =>
+  [...(track.image ?? [])].reverse().find((image) => image['#text'])?.['#text'];
+
+export const SeedPickerDialog = ({
+  open,
+  videoTitle,
+  alternatives,
+  initialChoice,
+  onPick,
+  onCancel
+}: SeedPickerDialogProps) => {
+  const [artist, setArtist] = useState(initialChoice.artist);
+  const [title, setTitle] = useState(initialChoice.title);
+
+  const handleManualPick = () => {
+    if (!artist.trim() || !title.trim()) return;
+    onPick({ artist: artist.trim(), title: title.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="glass-card max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Which song is this?</DialogTitle>
+          <DialogDescription>
+            We couldn't tell for sure which song "{videoTitle}" is. Pick the right one and we'll remember it for this video.
+          </DialogDescription>
+        </DialogHeader>
+
+        {alternatives.length > 0 && (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {alternatives.slice(0, MAX_CHOICES).map(({ track, confidence }) => {
+              const image = getTrackImage(track);
+              return (
+                <button
+                  key={`${track.artist.name}-${track.name}`}
+                  type="button"
+                  onClick={() => onPick({ artist: track.artist.name, title: track.name })}
+                  className="w-full flex items-center gap-3 p-3 rounded-lg border border-border/50 hover:bg-accent/50 transition-colors text-left"
+                >
+                  {image ? (
+                    <img src={image} alt="" className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-12 h-12 rounded-md bg-gradient-music flex items-center justify-center flex-shrink-0">
+                      <Music className="w-5 h-5 text-white" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{track.name}</p>
+                    <p className="text-sm text-muted-foreground truncate">{track.artist.name}</p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Users className="w-3 h-3" />
+                      {formatListeners(track.listeners)}
+                    </p>
+                  </div>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">
+                    {Math.round(confidence * 100)}% match
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-2 border-t border-border/50">
+          <p className="text-sm font-medium pt-2">Or enter it yourself</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="seed-artist">Artist</Label>
+              <Input id="seed-artist" value={artist} onChange={(e) => setArtist(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="seed-title">Title</Label>
+              <Input
+                id="seed-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleManualPick()}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} className="border-border/50">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleManualPick}
+            disabled={!artist.trim() || !title.trim()}
+            className="bg-gradient-music hover:opacity-90"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Use This Song
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeedPickerDialog;
@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { KeyRound, FlaskConical, Lock, Loader2 } from "lucide-react";
+import { ApiKeyForm } from "./ApiKeyForm";
+import { isDemoMode } from "@/lib/demoMode";
+import { clearApiKeys, getKeyStoreState, unlockApiKeys } from "@/lib/keyStore";
+import type { KeyCheck } from "@/lib/api";
+
+interface SetupWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTryDemo: () => void;
+}
+
+type Step = 'unlock' | 'welcome' | 'keys';
+
+// The startup check costs a YouTube quota unit, so run it once per tab
+const CHECKED_KEY = 'songLensKeysChecked';
+
+const SERVICE_NAMES = { youtube: 'YouTube', lastfm: 'Last.fm' };
+
+export const SetupWizard = ({ open, onOpenChange, onTryDemo }: SetupWizardProps) => {
+  const [step, setStep] = useState<Step>('welcome');
+  const [failing, setFailing] = useState<(keyof typeof SERVICE_NAMES)[]>([]);
+  const [passphrase, setPassphrase] = useState("");
+  const [unlockError, setUnlockError] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // Encrypted keys need unlocking before anything else; otherwise make a
+  // cheap call to each API and only interrupt when a key is rejected
+  useEffect(() => {
+    if (isDemoMode()) return;
+
+    if (getKeyStoreState() === 'locked') {
+      setStep('unlock');
+      onOpenChange(true);
+      return;
+    }
+    if (sessionStorage.getItem(CHECKED_KEY)) return;
+
+    const controller = new AbortController();
+    const runCheck = async () => {
+      const { checkYouTubeKey, checkLastFmKey } = await import('@/lib/api');
+      const [youtube, lastfm]: KeyCheck[] = await Promise.all([
+        checkYouTubeKey(undefined, controller.signal),
+        checkLastFmKey(undefined, controller.signal),
+      ]);
+      sessionStorage.setItem(CHECKED_KEY, 'true');
+
+      const rejected = ([['youtube', youtube], ['lastfm', lastfm]] as const)
+        .filter(([, status]) => status === 'invalid')
+        .map(([service]) => service);
+      if (rejected.length > 0 && !isDemoMode()) {
+        setFailing(rejected);
+        setStep('welcome');
+        onOpenChange(true);
+      }
+    };
+    runCheck().catch((error) => {
+      if (!controller.signal.aborted) console.error('Error checking API keys:', error);
+    });
+    return () => controller.abort();
+    // Only on startup: onOpenChange is the parent's state setter, which never changes
+  }, [onOpenChange]);
+
+  // Opened from elsewhere (e.g. after a rejected key) skips the unlock step
+  useEffect(() => {
+    if (open && step === 'unlock' && getKeyStoreState() !== 'locked') setStep('welcome');
+  }, [open, step]);
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setUnlockError(false);
+    try {
+      await unlockApiKeys(passphrase);
+      setPassphrase("");
+      onOpenChange(false);
+    } catch {
+      setUnlockError(true);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    clearApiKeys();
+    setStep('welcome');
+  };
+
+  const handleTryDemo = () => {
+    onOpenChange(false);
+    onTryDemo();
+  };
+
+  const problem = failing.length > 0
+    ? `The ${failing.map((service) => SERVICE_NAMES[service]).join(' and ')} API key ${failing.length > 1 ? 'were' : 'was'} rejected or isn't configured on the server.`
+    : "Song Lens needs a YouTube Data API key and a Last.fm API key to look up songs.";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card max-w-lg">
+        {step === 'unlock' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="w-5 h-5 text-primary" />
+                Unlock your API keys
+              </DialogTitle>
+              <DialogDescription>
+                Your keys are encrypted in this browser. Enter your passphrase to use them this visit.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              type="password"
+              autoFocus
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+            />
+            {unlockError && <p className="text-sm text-destructive">That passphrase didn't work.</p>}
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={handleForget}>Forget keys</Button>
+              <Button onClick={handleUnlock} disabled={!passphrase || isUnlocking} className="bg-gradient-music hover:opacity-90">
+                {isUnlocking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Unlock
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'welcome' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <KeyRound className="w-5 h-5 text-primary" />
+                Set up API keys
+              </DialogTitle>
+              <DialogDescription>
+                {problem} You can use your own keys, which stay in this browser, or look around with demo data.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={handleTryDemo}>
+                <FlaskConical className="w-4 h-4 mr-2" />
+                Try demo
+              </Button>
+              <Button onClick={() => setStep('keys')} className="bg-gradient-music hover:opacity-90">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Add my keys
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'keys' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Your API keys</DialogTitle>
+              <DialogDescription>
+                Paste your keys and test them. You can change them later in Settings.
+              </DialogDescription>
+            </DialogHeader>
+            <ApiKeyForm onSaved={() => onOpenChange(false)} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SetupWizard;
@@ -1,8 +1,13 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ExternalLink, Play, Music, Youtube, Headphones, Loader2 } from "lucide-react";
+import { ExternalLink, Play, Music, Youtube, Headphones, Loader2, ListMusic, Pin, PinOff, Gem, Users } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { WhyThisTrack } from "./WhyThisTrack";
+import type { RecommendationSource } from "@/lib/api";
+import type { TrackRef } from "@/lib/providers/types";
+import { getPopularityTier } from "@/lib/popularity";
+import { usePopularityThresholds } from "@/hooks/use-popularity-thresholds";
 
 interface SongCardProps {
   title: string;
@@ -10,29 +15,94 @@ interface SongCardProps {
   coverArt?: string;
   spotifyUrl?: string;
   youtubeUrl?: string;
+  previewUrl?: string;
+  durationSeconds?: number;
+  // Only set on recommendations
+  source?: RecommendationSource;
+  matchScore?: number;
+  // The analyzed song, which recommendations explain themselves against
+  seed?: { title: string; artist: string };
+  // With several seeds (a playlist), the ones that suggested this track
+  matchedSeeds?: TrackRef[];
+  // Last.fm popularity, when known
+  listeners?: number;
+  playcount?: number;
   audioFeatures?: {
     danceability?: number;
     energy?: number;
     valence?: number;
   };
   onSelect?: () => void;
+  // Called when the preview is opened, e.g. so radio mode can queue more
+  onPlay?: () => void;
+  // Pins the song as a seed for blending, or unpins it
+  onTogglePin?: () => void;
+  isPinned?: boolean;
 }
 
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// 1.2M, 48K
+const formatCount = (count: number) => new Intl.NumberFormat(undefined, { notation: "compact" }).format(count);
+
+const SOURCE_STYLES: Record<RecommendationSource, string> = {
+  similar: "bg-primary/20 text-primary",
+  artist: "bg-blue-500/20 text-blue-400",
+  title: "bg-muted text-muted-foreground",
+};
+
+const SOURCE_HINTS: Record<RecommendationSource, string> = {
+  similar: "Last.fm lists this as similar to your song; higher scores are closer matches",
+  artist: "A popular track by the same artist, added because Last.fm had few similar tracks",
+  title: "Found by searching for your song's title; the weakest kind of suggestion",
+};
+
+// "Similar (0.82)", "Same artist", "Title match"
+const getSourceLabel = (source: RecommendationSource, matchScore?: number) => {
+  switch (source) {
+    case 'similar':
+      return matchScore !== undefined ? `Similar (${matchScore.toFixed(2)})` : "Similar";
+    case 'artist':
+      return "Same artist";
+    case 'title':
+      return "Title match";
+  }
+};
+
 export const SongCard = ({ 
   title, 
   artist, 
   coverArt, 
   spotifyUrl, 
   youtubeUrl, 
+  previewUrl,
+  durationSeconds,
+  source,
+  matchScore,
+  seed,
+  matchedSeeds,
+  listeners,
+  playcount,
   audioFeatures,
-  onSelect 
+  onSelect,
+  onPlay,
+  onTogglePin,
+  isPinned
 }: SongCardProps) => {
   const { toast } = useToast();
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
+  const thresholds = usePopularityThresholds();
+  const isHiddenGem = getPopularityTier(listeners, thresholds) === 'gem';
   
   const handlePlayPreview = (e: React.MouseEvent) => {
     e.stopPropagation();
+    onPlay?.();
+    if (previewUrl) {
+      window.open(previewUrl, '_blank', 'noopener');
+      return;
+    }
     toast({
       title: "🎵 Music Preview",
       description: `Playing preview of "${title}" by ${artist}`,
@@ -45,7 +115,7 @@ export const SongCard = ({
       onSelect();
       toast({
         title: "🎯 Song Selected",
-        description: `"${title}" is now your current song`,
+        description: `Finding songs similar to "${title}"`,
       });
     }
   };
@@ -105,32 +175,97 @@ export const SongCard = ({
           {/* Song Info */}
           <div className="flex-1 min-w-0">
             <h3 className="font-bold text-lg text-foreground truncate mb-1">{title}</h3>
-            <p className="text-muted-foreground text-sm truncate mb-3">{artist}</p>
+            <p className="text-muted-foreground text-sm truncate mb-3">
+              {artist}
+              {durationSeconds !== undefined && (
+                <span className="ml-2 text-xs">· {formatDuration(durationSeconds)}</span>
+              )}
+            </p>
             
             {/* Enhanced Audio Features */}
-            {audioFeatures && (
+            {listeners !== undefined && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground -mt-2 mb-3">
+                <Users className="w-3 h-3" />
+                {formatCount(listeners)} listeners
+                {playcount !== undefined && ` · ${formatCount(playcount)} plays`}
+              </p>
+            )}
+
+            {(source || audioFeatures) && (
               <div className="flex flex-wrap gap-2">
-                {audioFeatures.danceability && (
+                {source && (
+                  <span
+                    className={`text-xs px-3 py-1 rounded-full font-medium ${SOURCE_STYLES[source]}`}
+                    title={SOURCE_HINTS[source]}
+                  >
+                    {getSourceLabel(source, matchScore)}
+                  </span>
+                )}
+                {matchedSeeds && matchedSeeds.length > 0 && (
+                  <span
+                    className="flex items-center gap-1 text-xs bg-secondary text-secondary-foreground px-3 py-1 rounded-full font-medium"
+                    title={matchedSeeds.map((matched) => `${matched.artist} - ${matched.title}`).join('\n')}
+                  >
+                    <ListMusic className="w-3 h-3" />
+                    From {matchedSeeds.length} of your songs
+                  </span>
+                )}
+                {isHiddenGem && (
+                  <span
+                    className="flex items-center gap-1 text-xs bg-purple-500/20 text-purple-400 px-3 py-1 rounded-full font-medium"
+                    title={`Fewer than ${formatCount(thresholds.gemBelow)} Last.fm listeners`}
+                  >
+                    <Gem className="w-3 h-3" />
+                    Hidden gem
+                  </span>
+                )}
+                {audioFeatures?.danceability !== undefined && (
                   <span className="text-xs bg-primary/20 text-primary px-3 py-1 rounded-full font-medium">
                     Dance: {Math.round(audioFeatures.danceability * 100)}%
                   </span>
                 )}
-                {audioFeatures.energy && (
+                {audioFeatures?.energy !== undefined && (
                   <span className="text-xs bg-orange-500/20 text-orange-400 px-3 py-1 rounded-full font-medium">
                     Energy: {Math.round(audioFeatures.energy * 100)}%
                   </span>
                 )}
-                {audioFeatures.valence && (
+                {audioFeatures?.valence !== undefined && (
                   <span className="text-xs bg-green-500/20 text-green-400 px-3 py-1 rounded-full font-medium">
                     Mood: {audioFeatures.valence > 0.5 ? '😊' : '😌'}
                   </span>
                 )}
               </div>
             )}
+
+            {seed && source && (
+              // A new seed for the same track starts a fresh explanation
+              <WhyThisTrack
+                key={`${seed.artist}\u0000${seed.title}`}
+                seed={seed}
+                title={title}
+                artist={artist}
+                source={source}
+                matchScore={matchScore}
+              />
+            )}
           </div>
           
           {/* Action Buttons */}
           <div className="flex flex-col gap-3">
+            {onTogglePin && (
+              <Button
+                size="sm"
+                variant="outline"
+                className={`border-primary/30 transition-all duration-300 hover:scale-105 ${isPinned ? 'bg-primary text-primary-foreground' : 'hover:bg-primary/20'}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTogglePin();
+                }}
+                title={isPinned ? "Unpin seed" : "Pin as a seed to blend"}
+              >
+                {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              </Button>
+            )}
             {youtubeUrl && (
               <Button 
                 size="sm" 
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { SlidersHorizontal } from "lucide-react";
+import type { VibeTargets } from "@/lib/audioFeatures";
+
+interface VibeControlsProps {
+  targets: VibeTargets;
+  // While a slider moves
+  onChange: (targets: VibeTargets) => void;
+  // When a slider is released or a target is switched on or off
+  onCommit: (targets: VibeTargets) => void;
+  disabled?: boolean;
+}
+
+const AXES = [
+  { feature: 'energy', label: "Energy", low: "Calm", high: "Energetic" },
+  { feature: 'valence', label: "Mood", low: "Sad", high: "Happy" },
+] as const;
+
+// Targets start in the middle when switched on
+const DEFAULT_TARGET = 0.5;
+
+// "Any vibe", "Energy 70% · Mood 30%"
+const describeTargets = (targets: VibeTargets) => {
+  const parts = AXES
+    .filter(({ feature }) => targets[feature] !== undefined)
+    .map(({ feature, label }) => `${label} ${Math.round(targets[feature] * 100)}%`);
+  return parts.length > 0 ? parts.join(" · ") : "Any vibe";
+};
+
+export const VibeControls = ({ targets, onChange, onCommit, disabled }: VibeControlsProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="outline" className="glass-card border-border/50 rounded-full" disabled={disabled}>
+        <SlidersHorizontal className="w-4 h-4 mr-2 text-primary" />
+        {describeTargets(targets)}
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="glass-card w-80 space-y-5">
+      <p className="text-xs text-muted-foreground">
+        Estimated from Last.fm tags. Songs far from a target are dropped while enough others are left.
+      </p>
+      {AXES.map(({ feature, label, low, high }) => {
+        const target = targets[feature];
+        return (
+          <div key={feature} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">{label}</span>
+              <Switch
+                checked={target !== undefined}
+                onCheckedChange={(enabled) => onCommit({ ...targets, [feature]: enabled ? DEFAULT_TARGET : undefined })}
+                aria-label={`Target ${label.toLowerCase()}`}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="w-16 text-xs text-muted-foreground">{low}</span>
+              <Slider
+                value={[target ?? DEFAULT_TARGET]}
+                min={0}
+                max={1}
+                step={0.1}
+                disabled={target === undefined}
+                onValueChange={([value]) => onChange({ ...targets, [feature]: value })}
+                onValueCommit={([value]) => onCommit({ ...targets, [feature]: value })}
+                aria-label={label}
+                className="flex-1"
+              />
+              <span className="w-16 text-right text-xs text-muted-foreground">{high}</span>
+            </div>
+          </div>
+        );
+      })}
+    </PopoverContent>
+  </Popover>
+);
+
+export default VibeControls;
@@ -0,0 +1,122 @@
+import { useState, useEffect, useRef } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, HelpCircle, Loader2, Tag, Users, Route, Gauge } from "lucide-react";
+import type { RecommendationSource } from "@/lib/api";
+import type { RecommendationExplanation } from "@/lib/explanations";
+import type { TrackRef } from "@/lib/providers/types";
+import { isAbortError } from "@/lib/errors";
+
+interface WhyThisTrackProps {
+  seed: TrackRef;
+  title: string;
+  artist: string;
+  source: RecommendationSource;
+  matchScore?: number;
+}
+
+// Which step of getSimilarTracks produced the track, for the seed it was
+// recommended for (the analyzed song, a blended seed or a radio pick)
+const SOURCE_PATHS: Record<RecommendationSource, (seed: TrackRef) => string> = {
+  similar: (seed) => `Listed by Last.fm's track.getSimilar for "${seed.title}" by ${seed.artist}.`,
+  artist: (seed) =>
+    `Fallback: one of ${seed.artist}'s top tracks, because track.getSimilar returned fewer than 5 songs for "${seed.title}".`,
+  title: (seed) =>
+    `Last resort: a title search for "${seed.title}", because neither similar tracks nor ${seed.artist}'s top tracks gave enough songs.`,
+};
+
+export const WhyThisTrack = ({ seed, title, artist, source, matchScore }: WhyThisTrackProps) => {
+  const [open, setOpen] = useState(false);
+  const [explanation, setExplanation] = useState<RecommendationExplanation | null>(null);
+  const [failed, setFailed] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => requestRef.current?.abort();
+  }, []);
+
+  // Explanations cost a few Last.fm calls, so only load them when asked
+  const loadExplanation = async () => {
+    if (explanation || requestRef.current) return;
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setFailed(false);
+    try {
+      const { explainRecommendation } = await import('@/lib/explanations');
+      setExplanation(await explainRecommendation(seed, { title, artist, source, matchScore }, controller.signal));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error explaining recommendation:', error);
+      setFailed(true);
+    } finally {
+      if (requestRef.current === controller) requestRef.current = null;
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) loadExplanation();
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={handleOpenChange} onClick={(e) => e.stopPropagation()}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors mt-3">
+        <HelpCircle className="w-3 h-3" />
+        Why this track?
+        <ChevronDown className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-2 text-xs text-muted-foreground">
+        <p className="flex items-start gap-2">
+          <Route className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {SOURCE_PATHS[source](seed)}
+        </p>
+        {matchScore !== undefined && (
+          <p className="flex items-start gap-2">
+            <Gauge className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            Last.fm similarity score {matchScore.toFixed(2)} (1.00 is the closest match).
+          </p>
+        )}
+        {!explanation && !failed && (
+          <p className="flex items-center gap-2">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Comparing tags and artists...
+          </p>
+        )}
+        {failed && (
+          <p>
+            Couldn't load tags and similar artists.{" "}
+            <button type="button" className="underline hover:text-primary" onClick={loadExplanation}>
+              Try again
+            </button>
+          </p>
+        )}
+        {explanation && (
+          <>
+            <p className="flex items-start gap-2">
+              <Users className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {explanation.isSameArtist
+                ? `Same artist as "${seed.title}".`
+                : explanation.similarArtistMatch !== undefined
+                  ? `${artist} is a similar artist to ${seed.artist} (${explanation.similarArtistMatch.toFixed(2)}).`
+                  : `${artist} isn't among Last.fm's similar artists for ${seed.artist}.`}
+            </p>
+            <div className="flex items-start gap-2">
+              <Tag className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {explanation.sharedTags.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {explanation.sharedTags.map((tag) => (
+                    <span key={tag} className="bg-secondary px-2 py-0.5 rounded-full">{tag}</span>
+                  ))}
+                </div>
+              ) : (
+                <span>No Last.fm tags in common with "{seed.title}".</span>
+              )}
+            </div>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default WhyThisTrack;
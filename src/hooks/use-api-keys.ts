@@ -0,0 +1,15 @@
+import * as React from "react"
+import { getApiKeys, getKeyStoreState, subscribeToKeyStore, type ApiKeys, type KeyStoreState } from "@/lib/keyStore"
+
+export function useApiKeys(): { state: KeyStoreState; keys: ApiKeys } {
+  const [store, setStore] = React.useState(() => ({ state: getKeyStoreState(), keys: getApiKeys() }))
+
+  React.useEffect(() => {
+    const onChange = () => setStore({ state: getKeyStoreState(), keys: getApiKeys() })
+    const unsubscribe = subscribeToKeyStore(onChange)
+    onChange()
+    return unsubscribe
+  }, [])
+
+  return store
+}
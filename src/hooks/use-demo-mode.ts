@@ -0,0 +1,15 @@
+import * as React from "react"
+import { isDemoMode, subscribeToDemoMode } from "@/lib/demoMode"
+
+export function useDemoMode(): boolean {
+  const [enabled, setEnabled] = React.useState(isDemoMode)
+
+  React.useEffect(() => {
+    const onChange = () => setEnabled(isDemoMode())
+    const unsubscribe = subscribeToDemoMode(onChange)
+    onChange()
+    return unsubscribe
+  }, [])
+
+  return enabled
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+import { getPopularityThresholds, subscribeToPopularityThresholds, type PopularityThresholds } from "@/lib/popularity"
+
+export function usePopularityThresholds(): PopularityThresholds {
+  const [thresholds, setThresholds] = React.useState(getPopularityThresholds)
+
+  React.useEffect(() => {
+    const onChange = () => setThresholds(getPopularityThresholds())
+    const unsubscribe = subscribeToPopularityThresholds(onChange)
+    onChange()
+    return unsubscribe
+  }, [])
+
+  return thresholds
+}
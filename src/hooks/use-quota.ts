@@ -0,0 +1,15 @@
+import * as React from "react"
+import { getQuotaBudget, subscribeToQuota, type QuotaBudget } from "@/lib/quota"
+
+export function useQuotaBudget(): QuotaBudget {
+  const [budget, setBudget] = React.useState<QuotaBudget>(getQuotaBudget)
+
+  React.useEffect(() => {
+    const onChange = () => setBudget(getQuotaBudget())
+    const unsubscribe = subscribeToQuota(onChange)
+    onChange()
+    return unsubscribe
+  }, [])
+
+  return budget
+}
@@ -1,20 +1,35 @@
-const YOUTUBE_API_KEY = import.meta.env.VITE_YOUTUBE_API_KEY;
-const LASTFM_API_KEY = import.meta.env.VITE_LASTFM_API_KEY;
+import { cached, type CacheEndpoint } from './cache';
+import { API_BASE_URL } from './config';
+import { mapWithConcurrency } from './concurrency';
+import { ApiError, isAbortError, isApiError } from './errors';
+import { fetchJson } from './http';
+import { getApiKeys } from './keyStore';
+import type { z } from 'zod';
+import { getKeySlot, markKeyExhausted, reserveQuota, YOUTUBE_QUOTA_COSTS, type QuotaPriority } from './quota';
+import {
+  lastFmArtistTopTracksSchema,
+  lastFmSimilarArtistsSchema,
+  lastFmSimilarTracksSchema,
+  lastFmTrackInfoSchema,
+  lastFmTrackSearchSchema,
+  lastFmTopTagsSchema,
+  youtubePlaylistItemsSchema,
+  youtubeSearchSchema,
+  youtubeVideoListSchema,
+  type LastFmSimilarArtist,
+  type LastFmTrack,
+} from './schemas';
+import { scoreSeedMatch, type ScoredTrack } from './seedMatching';
+import { parseYouTubeTitle, type SeedCandidate } from './titleParser';
+import { dedupeTracks } from './trackIdentity';
 
-interface YouTubeVideoDetails {
+
+export interface YouTubeVideoDetails {
   title: string;
   channelTitle: string;
   thumbnail: string;
   videoId: string;
-}
-
-interface LastFmTrack {
-  name: string;
-  artist: {
-    name: string;
-  };
-  url: string;
-  image?: Array<{ '#text': string; size: string }>;
+  durationSeconds?: number;
 }
 
 // Array of beautiful music-themed fallback images
@@ -30,196 +45,538 @@ const FALLBACK_IMAGES = [
 ];
 
 // Function to get a random fallback image
-const getRandomFallbackImage = (): string => {
+export const getRandomFallbackImage = (): string => {
   return FALLBACK_IMAGES[Math.floor(Math.random() * FALLBACK_IMAGES.length)];
 };
 
-export const extractVideoId = (url: string): string | null => {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/watch\?.*v=([^&\n?#]+)/
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
+// Last.fm answers lookups for unknown tracks or artists with an error; for a
+// search that simply means there are no results.
+const withNotFoundFallback = async <T>(lookup: Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await lookup;
+  } catch (error) {
+    if (isApiError(error, 'not-found')) return fallback;
+    throw error;
+  }
+};
+
+const USER_KEY_HEADERS = {
+  youtube: 'X-YouTube-Api-Key',
+  lastfm: 'X-LastFm-Api-Key',
+};
+
+// Keys saved in Settings override the server's; see keyStore.ts
+const getUserKeyHeaders = (service: keyof typeof USER_KEY_HEADERS, key = getApiKeys()[service]): Record<string, string> =>
+  key ? { [USER_KEY_HEADERS[service]]: key } : {};
+
+// Fetches and validates Last.fm JSON through the persistent response cache.
+// Failed or malformed responses throw a typed ApiError and are never cached.
+const fetchLastFmJson = <S extends z.ZodTypeAny>(
+  endpoint: CacheEndpoint,
+  url: string,
+  schema: S,
+  signal?: AbortSignal
+): Promise<z.output<S>> =>
+  cached(endpoint, url, (loadSignal) => fetchJson('lastfm', url, schema, {
+    headers: getUserKeyHeaders('lastfm'),
+    signal: loadSignal,
+  }), signal);
+
+// YouTube lookups also go through the quota accountant, which decides whether
+// the call's priority still fits in today's budget and which pooled key pays
+// for it. Cache hits cost nothing.
+const fetchYouTubeJson = <S extends z.ZodTypeAny>(
+  resource: keyof typeof YOUTUBE_QUOTA_COSTS,
+  endpoint: CacheEndpoint,
+  url: string,
+  schema: S,
+  priority: QuotaPriority,
+  signal?: AbortSignal
+): Promise<z.output<S>> =>
+  cached(endpoint, url, async (loadSignal) => {
+    const quotaKey = await reserveQuota(YOUTUBE_QUOTA_COSTS[resource], priority);
+    if (quotaKey === null) {
+      throw new ApiError('youtube', { kind: 'quota-exceeded' }, 'Daily YouTube quota budget is used up');
+    }
+
+    try {
+      return await fetchJson('youtube', url, schema, {
+        headers: quotaKey === 'user'
+          ? getUserKeyHeaders('youtube')
+          : { 'X-YouTube-Key-Slot': String(getKeySlot(quotaKey)) },
+        signal: loadSignal,
+      });
+    } catch (error) {
+      if (isApiError(error, 'quota-exceeded')) markKeyExhausted(quotaKey);
+      throw error;
+    }
+  }, signal);
+
+export type KeyCheck = 'valid' | 'invalid' | 'unreachable';
+
+// Any public video works; videos.list with part=id costs 1 quota unit
+const KEY_CHECK_VIDEO_ID = 'dQw4w9WgXcQ';
+
+const toKeyCheck = (error: unknown): KeyCheck => {
+  if (isAbortError(error)) throw error;
+  if (isApiError(error, 'invalid-key')) return 'invalid';
+  // The key works, it's just out of quota for today
+  if (isApiError(error, 'quota-exceeded')) return 'valid';
+  return 'unreachable';
+};
+
+// Cheapest call that proves a key works, bypassing the cache. Pass `key` to
+// test one before saving it; otherwise the saved or server key is checked.
+export const checkYouTubeKey = async (key?: string, signal?: AbortSignal): Promise<KeyCheck> => {
+  try {
+    await fetchJson(
+      'youtube',
+      `${API_BASE_URL}/youtube/videos?id=${KEY_CHECK_VIDEO_ID}&part=id`,
+      youtubeVideoListSchema,
+      { headers: getUserKeyHeaders('youtube', key || getApiKeys().youtube), retries: 1, signal }
+    );
+    return 'valid';
+  } catch (error) {
+    return toKeyCheck(error);
+  }
+};
+
+export const checkLastFmKey = async (key?: string, signal?: AbortSignal): Promise<KeyCheck> => {
+  try {
+    await fetchJson(
+      'lastfm',
+      `${API_BASE_URL}/lastfm?method=track.search&track=Believe&limit=1`,
+      lastFmTrackSearchSchema,
+      { headers: getUserKeyHeaders('lastfm', key || getApiKeys().lastfm), retries: 1, signal }
+    );
+    return 'valid';
+  } catch (error) {
+    return toKeyCheck(error);
+  }
+};
+
+// 50 items per page; caps a huge playlist at a few quota units
+const PLAYLIST_PAGE_SIZE = 50;
+const MAX_PLAYLIST_PAGES = 4;
+
+// Every playable video in a playlist, in playlist order. playlistItems has no
+// durations, so those are left out.
+export const getYouTubePlaylistItems = async (playlistId: string, signal?: AbortSignal): Promise<YouTubeVideoDetails[]> => {
+  const videos: YouTubeVideoDetails[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < MAX_PLAYLIST_PAGES; page++) {
+    const params = new URLSearchParams({ playlistId, part: 'snippet', maxResults: String(PLAYLIST_PAGE_SIZE) });
+    if (pageToken) params.set('pageToken', pageToken);
+
+    const data = await fetchYouTubeJson(
+      'playlistItems',
+      'youtubePlaylistItems',
+      `${API_BASE_URL}/youtube/playlistItems?${params}`,
+      youtubePlaylistItemsSchema,
+      'critical',
+      signal
+    );
+
+    for (const { snippet } of data.items) {
+      if (!snippet.videoOwnerChannelTitle) continue;
+      videos.push({
+        title: snippet.title,
+        channelTitle: snippet.videoOwnerChannelTitle,
+        thumbnail: snippet.thumbnails.high?.url || snippet.thumbnails.default?.url,
+        videoId: snippet.resourceId.videoId,
+      });
+    }
+
+    pageToken = data.nextPageToken;
+    if (!pageToken) break;
   }
-  return null;
+
+  return videos;
+};
+
+// Parses ISO 8601 durations like "PT4M13S" from videos.list contentDetails
+const parseIsoDuration = (duration: string): number | undefined => {
+  const match = duration.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match) return undefined;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
 };
 
-export const getYouTubeVideoDetails = async (videoId: string): Promise<YouTubeVideoDetails> => {
-  const response = await fetch(
-    `https://www.googleapis.com/youtube/v3/videos?id=${videoId}&part=snippet&key=${YOUTUBE_API_KEY}`
+export const getYouTubeVideoDetails = async (videoId: string, signal?: AbortSignal): Promise<YouTubeVideoDetails> => {
+  const data = await fetchYouTubeJson(
+    'videos',
+    'youtubeVideo',
+    `${API_BASE_URL}/youtube/videos?id=${encodeURIComponent(videoId)}&part=snippet,contentDetails`,
+    youtubeVideoListSchema,
+    'critical',
+    signal
   );
   
-  if (!response.ok) {
-    throw new Error('Failed to fetch YouTube video details');
+  if (data.items.length === 0) {
+    throw new ApiError('youtube', { kind: 'not-found' }, 'Video not found');
   }
   
-  const data = await response.json();
-  
-  if (!data.items || data.items.length === 0) {
-    throw new Error('Video not found');
+  const { snippet: video, contentDetails } = data.items[0];
+  if (!video) {
+    throw new ApiError('youtube', { kind: 'malformed-response' }, 'YouTube video has no snippet');
   }
   
-  const video = data.items[0].snippet;
-  
   return {
     title: video.title,
     channelTitle: video.channelTitle,
     thumbnail: video.thumbnails.high?.url || video.thumbnails.default?.url,
-    videoId
+    videoId,
+    durationSeconds: contentDetails ? parseIsoDuration(contentDetails.duration) : undefined
   };
 };
 
-export const searchLastFmTrack = async (title: string, artist: string): Promise<LastFmTrack | null> => {
-  try {
-    const response = await fetch(
-      `https://ws.audioscrobbler.com/2.0/?method=track.search&track=${encodeURIComponent(title)}&artist=${encodeURIComponent(artist)}&api_key=${LASTFM_API_KEY}&format=json&limit=1`
-    );
-    
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    const tracks = data.results?.trackmatches?.track;
-    
-    if (tracks && tracks.length > 0) {
-      return Array.isArray(tracks) ? tracks[0] : tracks;
+// Several candidates per search, so the seed matcher has something to choose from
+const SEED_SEARCH_LIMIT = 5;
+
+export const searchLastFmTracks = async (title: string, artist: string, signal?: AbortSignal): Promise<LastFmTrack[]> => {
+  const data = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmTrackSearch',
+      `${API_BASE_URL}/lastfm?method=track.search&track=${encodeURIComponent(title)}&artist=${encodeURIComponent(artist)}&limit=${SEED_SEARCH_LIMIT}`,
+      lastFmTrackSearchSchema,
+      signal
+    ),
+    null
+  );
+  
+  return data?.results.trackmatches.track ?? [];
+};
+
+export interface LastFmTrackInfo {
+  durationSeconds?: number;
+  listeners?: number;
+  playcount?: number;
+}
+
+export const getLastFmTrackInfo = async (title: string, artist: string, signal?: AbortSignal): Promise<LastFmTrackInfo | null> => {
+  const data = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmTrackInfo',
+      `${API_BASE_URL}/lastfm?method=track.getInfo&track=${encodeURIComponent(title)}&artist=${encodeURIComponent(artist)}&autocorrect=1`,
+      lastFmTrackInfoSchema,
+      signal
+    ),
+    null
+  );
+  if (!data) return null;
+  
+  const { duration, listeners, playcount } = data.track;
+  return {
+    durationSeconds: duration ? Math.round(duration / 1000) : undefined,
+    listeners,
+    playcount
+  };
+};
+
+// How many parsed title guesses to try against Last.fm before giving up
+const MAX_SEED_CANDIDATES = 4;
+// How many front-runners get a track.getInfo call to compare durations
+const SEED_DURATION_CHECKS = 3;
+// A name match this good on a likely parse means we can stop searching
+const CONFIDENT_TEXT_MATCH = 0.9;
+
+export interface SeedMatch {
+  track: LastFmTrack | null;
+  // Best guess at artist/title parsed from the video, whether or not it matched
+  candidate: SeedCandidate;
+  // 0..1, how sure we are that `track` is the song in the video
+  confidence: number;
+  // Every Last.fm candidate considered, best first
+  alternatives: ScoredTrack[];
+}
+
+const byConfidence = (a: ScoredTrack, b: ScoredTrack) => b.confidence - a.confidence;
+
+// Parses the video title and channel into ranked (artist, title) guesses,
+// searches Last.fm for each and scores every hit against the video by name
+// similarity, duration agreement and listener count.
+export const findLastFmSeed = async (
+  video: Pick<YouTubeVideoDetails, 'title' | 'channelTitle' | 'durationSeconds'>,
+  signal?: AbortSignal
+): Promise<SeedMatch> => {
+  const candidates = parseYouTubeTitle(video.title, video.channelTitle);
+  const scored: ScoredTrack[] = [];
+  const seen = new Set<string>();
+  
+  for (const candidate of candidates.slice(0, MAX_SEED_CANDIDATES)) {
+    const tracks = await searchLastFmTracks(candidate.title, candidate.artist, signal);
+    for (const track of tracks) {
+      const key = `${track.artist.name}\u0000${track.name}`.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      scored.push({ track, candidate, confidence: scoreSeedMatch(track, candidate) });
     }
-    
-    return null;
-  } catch (error) {
-    console.error('Error searching Last.fm:', error);
-    return null;
+    if (scored.some((entry) => entry.confidence >= CONFIDENT_TEXT_MATCH)) break;
+  }
+  
+  scored.sort(byConfidence);
+  
+  // Refine the front-runners with duration agreement
+  if (video.durationSeconds) {
+    await Promise.all(scored.slice(0, SEED_DURATION_CHECKS).map(async (entry) => {
+      try {
+        const info = await getLastFmTrackInfo(entry.track.name, entry.track.artist.name, signal);
+        if (info?.durationSeconds) {
+          entry.confidence = scoreSeedMatch(entry.track, entry.candidate, {
+            youtubeDurationSeconds: video.durationSeconds,
+            lastFmDurationSeconds: info.durationSeconds
+          });
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Error getting Last.fm track info:', error);
+      }
+    }));
+    scored.sort(byConfidence);
   }
+  
+  const best = scored[0];
+  return {
+    track: best?.track ?? null,
+    candidate: best?.candidate ?? candidates[0] ?? { artist: video.channelTitle, title: video.title, score: 0 },
+    confidence: best?.confidence ?? 0,
+    alternatives: scored
+  };
 };
 
 // Helper function to get artist's top tracks
-export const getArtistTopTracks = async (artist: string): Promise<LastFmTrack[]> => {
-  try {
-    const response = await fetch(
-      `https://ws.audioscrobbler.com/2.0/?method=artist.gettoptracks` +
+export const getArtistTopTracks = async (artist: string, signal?: AbortSignal): Promise<LastFmTrack[]> => {
+  const data = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmArtistTopTracks',
+      `${API_BASE_URL}/lastfm?method=artist.gettoptracks` +
+      `&artist=${encodeURIComponent(artist)}` +
+      `&limit=5`,
+      lastFmArtistTopTracksSchema,
+      signal
+    ),
+    null
+  );
+  return data?.toptracks.track ?? [];
+};
+
+// Tags for a track, falling back to the artist's tags when listeners haven't
+// tagged the track itself. Lowercased, most used first.
+export const getTopTags = async (title: string, artist: string, signal?: AbortSignal): Promise<string[]> => {
+  const trackTags = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmTopTags',
+      `${API_BASE_URL}/lastfm?method=track.getTopTags` +
       `&artist=${encodeURIComponent(artist)}` +
-      `&api_key=${LASTFM_API_KEY}` +
-      `&format=json` +
-      `&limit=5`
+      `&track=${encodeURIComponent(title)}` +
+      `&autocorrect=1`,
+      lastFmTopTagsSchema,
+      signal
+    ),
+    null
+  );
+  let tags = trackTags?.toptags.tag ?? [];
+  
+  if (tags.length === 0) {
+    const artistTags = await withNotFoundFallback(
+      fetchLastFmJson(
+        'lastfmTopTags',
+        `${API_BASE_URL}/lastfm?method=artist.getTopTags&artist=${encodeURIComponent(artist)}&autocorrect=1`,
+        lastFmTopTagsSchema,
+        signal
+      ),
+      null
     );
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    return data.toptracks?.track || [];
-  } catch (error) {
-    console.error('Error getting artist top tracks:', error);
-    return [];
+    tags = artistTags?.toptags.tag ?? [];
   }
+  
+  return tags.map((tag) => tag.name.toLowerCase());
 };
 
-export const getSimilarTracks = async (title: string, artist: string): Promise<LastFmTrack[]> => {
-  try {
-    const response = await fetch(
-      `https://ws.audioscrobbler.com/2.0/?method=track.getSimilar` +
+export const getSimilarArtists = async (artist: string, signal?: AbortSignal): Promise<LastFmSimilarArtist[]> => {
+  const data = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmSimilarArtists',
+      `${API_BASE_URL}/lastfm?method=artist.getSimilar` +
+      `&artist=${encodeURIComponent(artist)}` +
+      `&limit=100` +
+      `&autocorrect=1`,
+      lastFmSimilarArtistsSchema,
+      signal
+    ),
+    null
+  );
+  return data?.similarartists.artist ?? [];
+};
+
+// Where a recommendation came from: a real track.getSimilar hit (with
+// Last.fm's 0..1 `match` score), one of the seed artist's top tracks, or a
+// plain title search when Last.fm knew too little about the seed
+export type RecommendationSource = 'similar' | 'artist' | 'title';
+
+export type SimilarTrack = LastFmTrack & { source: RecommendationSource };
+
+const withSource = (tracks: LastFmTrack[], source: RecommendationSource): SimilarTrack[] =>
+  tracks.map((track) => ({ ...track, source }));
+
+// Similar tracks returned unless the caller asks for a deeper list
+export const SIMILAR_TRACKS_LIMIT = 10;
+
+export const getSimilarTracks = async (
+  title: string,
+  artist: string,
+  signal?: AbortSignal,
+  limit = SIMILAR_TRACKS_LIMIT
+): Promise<SimilarTrack[]> => {
+  const data = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmSimilar',
+      `${API_BASE_URL}/lastfm?method=track.getSimilar` +
       `&artist=${encodeURIComponent(artist)}` +
       `&track=${encodeURIComponent(title)}` +
-      `&api_key=${LASTFM_API_KEY}` +
-      `&format=json` +
-      `&limit=12` +  // Increased from 10 to 12
-      `&autocorrect=1`  // Enable autocorrection of misspelled artist/track names
-    );
-    
-    if (!response.ok) throw new Error('Failed to fetch similar tracks');
-    
-    let data = await response.json();
-    let similarTracks = data.similartracks?.track || [];
-    
-    // If we don't have enough similar tracks, try getting artist's top tracks
-    if (similarTracks.length < 5) {
-      console.log('Not enough similar tracks, trying artist top tracks...');
-      const artistTracks = await getArtistTopTracks(artist);
-      similarTracks = [...new Set([...similarTracks, ...artistTracks])]; // Remove duplicates
-    }
-    
-    // If still not enough results, try a more general search
-    if (similarTracks.length < 5) {
-      console.log('Still not enough tracks, trying general search...');
-      const searchResults = await searchLastFmByTitle(title);
-      similarTracks = [...new Set([...similarTracks, ...searchResults])];
-    }
-    
-    return similarTracks.slice(0, 10); // Return max 10 tracks
-  } catch (error) {
-    console.error('Error in getSimilarTracks:', error);
-    return [];
+      `&limit=${limit + 2}` +  // A couple spare for versions of the seed, which get dropped
+      `&autocorrect=1`,  // Enable autocorrection of misspelled artist/track names
+      lastFmSimilarTracksSchema,
+      signal
+    ),
+    null
+  );
+  // The seed and its remasters, live cuts etc. are never recommendations
+  const seed = [{ name: title, artist: { name: artist } }];
+  let similarTracks = dedupeTracks(withSource(data?.similartracks.track ?? [], 'similar'), seed);
+  
+  // If we don't have enough similar tracks, try getting artist's top tracks
+  if (similarTracks.length < 5) {
+    console.log('Not enough similar tracks, trying artist top tracks...');
+    const artistTracks = await getArtistTopTracks(artist, signal);
+    similarTracks = dedupeTracks([...similarTracks, ...withSource(artistTracks, 'artist')], seed);
   }
+  
+  // If still not enough results, try a more general search
+  if (similarTracks.length < 5) {
+    console.log('Still not enough tracks, trying general search...');
+    const searchResults = await searchLastFmByTitle(title, signal);
+    similarTracks = dedupeTracks([...similarTracks, ...withSource(searchResults, 'title')], seed);
+  }
+  
+  return similarTracks.slice(0, limit);
 };
 
 // Helper function to search tracks by title
-const searchLastFmByTitle = async (title: string): Promise<LastFmTrack[]> => {
-  try {
-    const response = await fetch(
-      `https://ws.audioscrobbler.com/2.0/?method=track.search` +
+const searchLastFmByTitle = async (title: string, signal?: AbortSignal): Promise<LastFmTrack[]> => {
+  const data = await withNotFoundFallback(
+    fetchLastFmJson(
+      'lastfmTrackSearch',
+      `${API_BASE_URL}/lastfm?method=track.search` +
       `&track=${encodeURIComponent(title)}` +
-      `&api_key=${LASTFM_API_KEY}` +
-      `&format=json` +
-      `&limit=5`
-    );
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    return data.results?.trackmatches?.track || [];
-  } catch (error) {
-    console.error('Error searching Last.fm by title:', error);
-    return [];
-  }
+      `&limit=5`,
+      lastFmTrackSearchSchema,
+      signal
+    ),
+    null
+  );
+  return data?.results.trackmatches.track ?? [];
 };
 
-export const searchYouTubeForTrack = async (title: string, artist: string): Promise<string | null> => {
+export interface YouTubeTrackMatch {
+  url: string;
+  videoId: string;
+  thumbnail?: string;
+  channelTitle: string;
+  durationSeconds?: number;
+}
+
+// Only the top recommendations are resolved at normal priority; the rest are
+// the first to be skipped when the quota budget runs low.
+const YOUTUBE_NORMAL_PRIORITY_COUNT = 4;
+const YOUTUBE_SEARCH_CONCURRENCY = 3;
+const YOUTUBE_VIDEOS_BATCH_SIZE = 50;
+
+const searchYouTubeForTrack = async (
+  title: string,
+  artist: string,
+  priority: QuotaPriority,
+  signal?: AbortSignal
+): Promise<YouTubeTrackMatch | null> => {
   try {
     const query = `${artist} ${title}`;
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(query)}&type=video&videoCategoryId=10&maxResults=1&key=${YOUTUBE_API_KEY}`
+    const data = await fetchYouTubeJson(
+      'search',
+      'youtubeSearch',
+      `${API_BASE_URL}/youtube/search?part=snippet&q=${encodeURIComponent(query)}&type=video&videoCategoryId=10&maxResults=1`,
+      youtubeSearchSchema,
+      priority,
+      signal
     );
     
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    
-    if (data.items && data.items.length > 0) {
-      return `https://youtube.com/watch?v=${data.items[0].id.videoId}`;
-    }
+    if (data.items.length === 0) return null;
     
-    return null;
+    const { id, snippet } = data.items[0];
+    return {
+      url: `https://youtube.com/watch?v=${id.videoId}`,
+      videoId: id.videoId,
+      thumbnail: snippet.thumbnails.high?.url || snippet.thumbnails.medium?.url || snippet.thumbnails.default?.url,
+      channelTitle: snippet.channelTitle,
+    };
   } catch (error) {
+    if (isAbortError(error)) throw error;
+    // Links are best-effort: SongCard falls back to a YouTube search link
     console.error('Error searching YouTube:', error);
     return null;
   }
 };
 
-// New function to search for better thumbnails using YouTube
-export const searchYouTubeThumbnail = async (title: string, artist: string): Promise<string | null> => {
-  try {
-    const query = `${artist} ${title}`;
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(query)}&type=video&videoCategoryId=10&maxResults=1&key=${YOUTUBE_API_KEY}`
-    );
-    
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    
-    if (data.items && data.items.length > 0) {
-      const thumbnail = data.items[0].snippet.thumbnails.high?.url || 
-                       data.items[0].snippet.thumbnails.medium?.url || 
-                       data.items[0].snippet.thumbnails.default?.url;
-      return thumbnail || null;
+// One videos.list call (1 quota unit) fetches durations for up to 50 videos
+const getYouTubeDurations = async (videoIds: string[], signal?: AbortSignal): Promise<Map<string, number>> => {
+  const durations = new Map<string, number>();
+  
+  for (let start = 0; start < videoIds.length; start += YOUTUBE_VIDEOS_BATCH_SIZE) {
+    const batch = videoIds.slice(start, start + YOUTUBE_VIDEOS_BATCH_SIZE);
+    try {
+      const data = await fetchYouTubeJson(
+        'videos',
+        'youtubeVideo',
+        `${API_BASE_URL}/youtube/videos?id=${encodeURIComponent(batch.join(','))}&part=contentDetails`,
+        youtubeVideoListSchema,
+        'normal',
+        signal
+      );
+      for (const item of data.items) {
+        const seconds = parseIsoDuration(item.contentDetails?.duration || '');
+        if (seconds !== undefined) durations.set(item.id, seconds);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error fetching YouTube durations:', error);
     }
-    
-    return null;
-  } catch (error) {
-    console.error('Error searching YouTube thumbnail:', error);
-    return null;
   }
+  
+  return durations;
+};
+
+// Resolves each track to its best YouTube video (URL, thumbnail and channel
+// from a single search, duration from one batched videos.list call), with a
+// capped number of searches in flight. Results keep the order of `tracks`.
+export const resolveYouTubeTracks = async (
+  tracks: Array<{ title: string; artist: string }>,
+  signal?: AbortSignal
+): Promise<Array<YouTubeTrackMatch | null>> => {
+  const matches = await mapWithConcurrency(tracks, YOUTUBE_SEARCH_CONCURRENCY, (track, index) =>
+    searchYouTubeForTrack(
+      track.title,
+      track.artist,
+      index < YOUTUBE_NORMAL_PRIORITY_COUNT ? 'normal' : 'low',
+      signal
+    )
+  );
+  
+  const videoIds = [...new Set(matches.filter(Boolean).map((match) => match.videoId))];
+  const durations = await getYouTubeDurations(videoIds, signal);
+  
+  return matches.map((match) =>
+    match ? { ...match, durationSeconds: durations.get(match.videoId) } : null
+  );
 };
 
 // New function to generate Spotify search URL
@@ -228,9 +585,8 @@ export const getSpotifySearchUrl = (title: string, artist: string): string => {
   return `https://open.spotify.com/search/${query}`;
 };
 
-// Enhanced function to get better cover art with multiple fallbacks
-export const getBestCoverArt = async (track: LastFmTrack, title?: string, artist?: string): Promise<string> => {
-  // First, try to get cover art from Last.fm
+// Last.fm cover art for a track, largest available size first
+export const getLastFmCoverArt = (track: LastFmTrack): string | undefined => {
   if (track.image && track.image.length > 0) {
     // Prefer large images, fallback to medium, then small
     const largeImage = track.image.find(img => img.size === 'large' || img.size === 'extralarge');
@@ -249,18 +605,5 @@ export const getBestCoverArt = async (track: LastFmTrack, title?: string, artist
     }
   }
   
-  // If Last.fm doesn't have good cover art, try YouTube
-  if (title && artist) {
-    try {
-      const youtubeThumbnail = await searchYouTubeThumbnail(title, artist);
-      if (youtubeThumbnail) {
-        return youtubeThumbnail;
-      }
-    } catch (error) {
-      console.error('Error getting YouTube thumbnail:', error);
-    }
-  }
-  
-  // Final fallback: random beautiful music image
-  return getRandomFallbackImage();
-};
\ No newline at end of file
+  return undefined;
+};
@@ -0,0 +1,175 @@
+// Estimated audio features from Last.fm tags. Neither Last.fm nor YouTube
+// gives us energy or mood, but listeners tag tracks with words like
+// "energetic", "mellow" or "sad", and genres lean one way or another. Each
+// known tag votes for the features it says something about; a track's top
+// tags count for more than its bottom ones.
+
+export interface AudioFeatures {
+  danceability?: number;
+  energy?: number;
+  valence?: number;
+}
+
+// Where the recommendations should land, each 0..1; unset means any
+export interface VibeTargets {
+  energy?: number;
+  valence?: number;
+}
+
+// How far a feature may be from its target for a track to count as on-vibe
+const VIBE_TOLERANCE = 0.3;
+
+const TAG_FEATURES: Record<string, AudioFeatures> = {
+  // Moods
+  'upbeat': { energy: 0.75, valence: 0.8, danceability: 0.65 },
+  'happy': { energy: 0.65, valence: 0.9 },
+  'feel good': { energy: 0.65, valence: 0.9 },
+  'uplifting': { energy: 0.7, valence: 0.85 },
+  'fun': { energy: 0.7, valence: 0.85 },
+  'party': { energy: 0.85, valence: 0.85, danceability: 0.9 },
+  'summer': { energy: 0.65, valence: 0.8 },
+  'catchy': { valence: 0.7, danceability: 0.65 },
+  'groovy': { valence: 0.7, danceability: 0.85 },
+  'energetic': { energy: 0.9 },
+  'workout': { energy: 0.95, danceability: 0.7 },
+  'epic': { energy: 0.8 },
+  'aggressive': { energy: 0.95, valence: 0.2 },
+  'angry': { energy: 0.9, valence: 0.15 },
+  'romantic': { energy: 0.4, valence: 0.7 },
+  'love': { valence: 0.6 },
+  'mellow': { energy: 0.25, valence: 0.5 },
+  'chill': { energy: 0.25, valence: 0.55, danceability: 0.4 },
+  'chillout': { energy: 0.2, valence: 0.55 },
+  'relax': { energy: 0.15, valence: 0.6 },
+  'relaxing': { energy: 0.15, valence: 0.6 },
+  'calm': { energy: 0.15, valence: 0.55 },
+  'sleep': { energy: 0.05, valence: 0.5 },
+  'dreamy': { energy: 0.3, valence: 0.5 },
+  'atmospheric': { energy: 0.3 },
+  'melancholy': { energy: 0.3, valence: 0.15 },
+  'melancholic': { energy: 0.3, valence: 0.15 },
+  'sad': { energy: 0.25, valence: 0.1 },
+  'depressing': { energy: 0.2, valence: 0.05 },
+  'dark': { valence: 0.15 },
+  'emo': { energy: 0.6, valence: 0.2 },
+  // Genres and styles
+  'acoustic': { energy: 0.3 },
+  'singer-songwriter': { energy: 0.3 },
+  'piano': { energy: 0.3 },
+  'classical': { energy: 0.3, danceability: 0.2 },
+  'ambient': { energy: 0.1, valence: 0.45, danceability: 0.15 },
+  'lo-fi': { energy: 0.2, valence: 0.5, danceability: 0.4 },
+  'chillhop': { energy: 0.3, danceability: 0.5 },
+  'downtempo': { energy: 0.25, danceability: 0.4 },
+  'folk': { energy: 0.3, valence: 0.5 },
+  'americana': { energy: 0.4, valence: 0.5 },
+  'bluegrass': { energy: 0.6, valence: 0.7 },
+  'country': { energy: 0.5, valence: 0.6 },
+  'jazz': { energy: 0.4, valence: 0.6, danceability: 0.5 },
+  'smooth jazz': { energy: 0.25, valence: 0.6 },
+  'blues': { energy: 0.4, valence: 0.35 },
+  'soul': { energy: 0.5, valence: 0.65, danceability: 0.6 },
+  'motown': { energy: 0.65, valence: 0.8, danceability: 0.75 },
+  'rnb': { energy: 0.5, valence: 0.6, danceability: 0.7 },
+  'funk': { energy: 0.75, valence: 0.8, danceability: 0.9 },
+  'disco': { energy: 0.8, valence: 0.85, danceability: 0.95 },
+  'reggae': { energy: 0.5, valence: 0.7, danceability: 0.75 },
+  'pop': { energy: 0.65, valence: 0.7, danceability: 0.7 },
+  'indie pop': { energy: 0.6, valence: 0.7 },
+  'dance pop': { energy: 0.75, valence: 0.75, danceability: 0.85 },
+  'synthpop': { energy: 0.65, valence: 0.65, danceability: 0.7 },
+  'dance': { energy: 0.8, valence: 0.7, danceability: 0.9 },
+  'electronic': { energy: 0.7, danceability: 0.7 },
+  'house': { energy: 0.8, valence: 0.65, danceability: 0.9 },
+  'deep house': { energy: 0.65, danceability: 0.85 },
+  'techno': { energy: 0.85, danceability: 0.85 },
+  'trance': { energy: 0.85, danceability: 0.8 },
+  'edm': { energy: 0.9, danceability: 0.9 },
+  'drum and bass': { energy: 0.95, danceability: 0.7 },
+  'dubstep': { energy: 0.9 },
+  'hip-hop': { energy: 0.65, danceability: 0.75 },
+  'rap': { energy: 0.7, danceability: 0.7 },
+  'boom bap': { energy: 0.6, danceability: 0.7 },
+  'rock': { energy: 0.75, valence: 0.5 },
+  'alternative': { energy: 0.65 },
+  'indie': { energy: 0.55 },
+  'indie rock': { energy: 0.65, valence: 0.5 },
+  'new wave': { energy: 0.65, valence: 0.6, danceability: 0.65 },
+  'soft rock': { energy: 0.4, valence: 0.6 },
+  'hard rock': { energy: 0.85, valence: 0.45 },
+  'grunge': { energy: 0.8, valence: 0.25 },
+  'shoegaze': { energy: 0.5, valence: 0.35 },
+  'post-rock': { energy: 0.5, valence: 0.35 },
+  'punk': { energy: 0.9, valence: 0.5 },
+  'punk rock': { energy: 0.9, valence: 0.5 },
+  'pop punk': { energy: 0.85, valence: 0.7 },
+  'hardcore': { energy: 1, valence: 0.2 },
+  'metal': { energy: 0.95, valence: 0.3 },
+  'heavy metal': { energy: 0.95, valence: 0.3 },
+  'thrash': { energy: 1, valence: 0.2 },
+  'gothic': { valence: 0.2 },
+};
+
+const FEATURES = ['danceability', 'energy', 'valence'] as const;
+
+// Undefined when none of the tags says anything about the track's sound
+export const estimateAudioFeatures = (tags: string[]): AudioFeatures | undefined => {
+  const totals = { danceability: 0, energy: 0, valence: 0 };
+  const weights = { danceability: 0, energy: 0, valence: 0 };
+
+  tags.forEach((tag, index) => {
+    const features = TAG_FEATURES[tag.toLowerCase().trim()];
+    if (!features) return;
+    const weight = 1 / (1 + index * 0.25);
+    for (const feature of FEATURES) {
+      if (features[feature] === undefined) continue;
+      totals[feature] += features[feature] * weight;
+      weights[feature] += weight;
+    }
+  });
+
+  if (FEATURES.every((feature) => weights[feature] === 0)) return undefined;
+  const estimate: AudioFeatures = {};
+  for (const feature of FEATURES) {
+    if (weights[feature] > 0) estimate[feature] = totals[feature] / weights[feature];
+  }
+  return estimate;
+};
+
+// The largest gap between a target and the track's feature. Undefined when
+// the track lacks a targeted feature.
+const getVibeDistance = (features: AudioFeatures | undefined, targets: VibeTargets): number | undefined => {
+  let distance = 0;
+  for (const feature of ['energy', 'valence'] as const) {
+    if (targets[feature] === undefined) continue;
+    if (features?.[feature] === undefined) return undefined;
+    distance = Math.max(distance, Math.abs(features[feature] - targets[feature]));
+  }
+  return distance;
+};
+
+// Multiplies a track's relevance: 1 on target, falling with distance.
+// Unknown tracks are treated as middling.
+export const getVibeWeight = (features: AudioFeatures | undefined, targets: VibeTargets): number =>
+  1 - (getVibeDistance(features, targets) ?? 0.5);
+
+// Drops tracks off the requested vibe. When that leaves fewer than
+// `minCount`, the closest of the rest (unknown ones last) fill the gap.
+export const filterByVibe = <T>(
+  tracks: T[],
+  getFeatures: (track: T) => AudioFeatures | undefined,
+  targets: VibeTargets,
+  minCount: number
+): T[] => {
+  const distances = tracks.map((track) => getVibeDistance(getFeatures(track), targets));
+  const onVibe = tracks.filter((_track, index) => distances[index] !== undefined && distances[index] <= VIBE_TOLERANCE);
+  if (onVibe.length >= minCount) return onVibe;
+
+  const rest = tracks
+    .map((track, index) => ({ track, distance: distances[index] ?? Infinity }))
+    .filter(({ distance }) => distance > VIBE_TOLERANCE)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, minCount - onVibe.length)
+    .map(({ track }) => track);
+  return [...onVibe, ...rest];
+};
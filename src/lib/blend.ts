@@ -0,0 +1,61 @@
+import type { RecommendationSource, SimilarTrack } from './api';
+import type { TrackRef } from './providers/types';
+import { getIdentityKeys, trackFromRef } from './trackIdentity';
+
+// Combines the similar tracks of several seeds (the songs of a playlist, or
+// songs the user pinned) into one ranking. Every seed that suggests a track
+// adds weight * (1 + 0.5 * match + 0.5 * rankScore) to the track's score, so
+// one seed's suggestion is worth between its weight and twice its weight.
+// With equal weights a track two seeds share outranks most tracks only one
+// seed suggests; a heavier seed's picks can outrank tracks lighter seeds
+// agree on.
+
+export interface SeedResult {
+  seed: TrackRef;
+  tracks: SimilarTrack[];
+  // Relative importance of the seed; 1 when not set
+  weight?: number;
+}
+
+export type BlendedTrack = SimilarTrack & {
+  // Seeds that suggested the track, in seed order
+  seeds: TrackRef[];
+  blendScore: number;
+};
+
+const SOURCE_RANK: Record<RecommendationSource, number> = { similar: 0, artist: 1, title: 2 };
+
+// 1 for a seed's first suggestion, falling towards 0 for its last
+const rankScore = (index: number, count: number) => 1 - index / count;
+
+// `exclude` drops tracks the user already has, such as the playlist itself;
+// the seeds are always excluded
+export const blendSimilarTracks = (results: SeedResult[], exclude: TrackRef[] = []): BlendedTrack[] => {
+  const excluded = new Set([...results.map((result) => result.seed), ...exclude].map(trackFromRef).flatMap(getIdentityKeys));
+  const groups = new Map<string, BlendedTrack>();
+  const blended: BlendedTrack[] = [];
+
+  for (const { seed, tracks, weight = 1 } of results) {
+    for (const [index, track] of tracks.entries()) {
+      const keys = getIdentityKeys(track);
+      if (keys.some((key) => excluded.has(key))) continue;
+
+      let group = keys.map((key) => groups.get(key)).find(Boolean);
+      if (!group) {
+        group = { ...track, seeds: [], blendScore: 0 };
+        blended.push(group);
+      }
+      keys.forEach((key) => groups.set(key, group));
+
+      // A seed counts once per track, even if two of its versions were listed
+      if (group.seeds.includes(seed)) continue;
+      group.seeds.push(seed);
+      group.blendScore += weight * (1 + 0.5 * (track.match ?? 0) + 0.5 * rankScore(index, tracks.length));
+      if (track.match !== undefined) group.match = Math.max(group.match ?? 0, track.match);
+      if (SOURCE_RANK[track.source] < SOURCE_RANK[group.source]) group.source = track.source;
+    }
+  }
+
+  // Array.prototype.sort is stable, so ties keep the first seed's order
+  return blended.sort((a, b) => b.blendScore - a.blendScore);
+};
@@ -0,0 +1,218 @@
+// Persistent response cache for the lookups in api.ts, backed by IndexedDB.
+// Entries are fresh for `ttl`, then served stale (while a background request
+// refreshes them) until `ttl + staleTtl`, after which they are refetched.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DB_NAME = 'songLensCache';
+const DB_VERSION = 2;
+const STORE_NAME = 'responses';
+
+export interface CachePolicy {
+  ttl: number;
+  staleTtl: number;
+}
+
+export const CACHE_POLICIES = {
+  youtubeVideo: { ttl: 7 * DAY, staleTtl: 30 * DAY },
+  youtubeSearch: { ttl: 3 * DAY, staleTtl: 14 * DAY },
+  youtubePlaylistItems: { ttl: HOUR, staleTtl: 7 * DAY },
+  lastfmTrackSearch: { ttl: 7 * DAY, staleTtl: 30 * DAY },
+  lastfmTrackInfo: { ttl: 7 * DAY, staleTtl: 30 * DAY },
+  lastfmSimilar: { ttl: 3 * DAY, staleTtl: 30 * DAY },
+  lastfmArtistTopTracks: { ttl: DAY, staleTtl: 7 * DAY },
+  lastfmTopTags: { ttl: 7 * DAY, staleTtl: 30 * DAY },
+  lastfmSimilarArtists: { ttl: 3 * DAY, staleTtl: 30 * DAY },
+} satisfies Record<string, CachePolicy>;
+
+export type CacheEndpoint = keyof typeof CACHE_POLICIES;
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  storedAt: number;
+  size: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// Used when IndexedDB is unavailable (private mode in some browsers)
+const memoryStore = new Map<string, CacheEntry>();
+
+// Concurrent lookups for the same key share one request. It is only aborted
+// once every caller waiting on it has given up; callers without a signal,
+// such as stale-while-revalidate refreshes, never give up.
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers with a signal still waiting
+  waiters: number;
+  pinned: boolean;
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        } else {
+          // v2 stores schema-validated responses; drop anything older
+          request.transaction?.objectStore(STORE_NAME).clear();
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening response cache:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const database = await openDatabase();
+  if (!database) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  try {
+    if (!(await openDatabase())) return memoryStore.get(key);
+    return await runTransaction<CacheEntry | undefined>('readonly', (store) => store.get(key));
+  } catch (error) {
+    console.error('Error reading response cache:', error);
+    return undefined;
+  }
+};
+
+const writeEntry = async (entry: CacheEntry): Promise<void> => {
+  try {
+    if (!(await openDatabase())) {
+      memoryStore.set(entry.key, entry);
+      return;
+    }
+    await runTransaction('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.error('Error writing response cache:', error);
+  }
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const startRequest = <T>(key: string, load: (signal: AbortSignal) => Promise<T>): InFlightRequest => {
+  // An aborted request is on its way out; a new caller starts afresh
+  const existing = inFlight.get(key);
+  if (existing && !existing.controller.signal.aborted) return existing;
+
+  const controller = new AbortController();
+  const promise = load(controller.signal)
+    .then(async (value) => {
+      await writeEntry({ key, value, storedAt: Date.now(), size: JSON.stringify(value ?? null).length });
+      return value;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    });
+
+  const request: InFlightRequest = { promise, controller, waiters: 0, pinned: false };
+  inFlight.set(key, request);
+  return request;
+};
+
+const loadAndStore = <T>(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(signal.reason ?? abortError());
+
+  const request = startRequest(key, load);
+  if (signal) request.waiters++;
+  else request.pinned = true;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      if (--request.waiters === 0 && !request.pinned) {
+        request.controller.abort();
+        if (inFlight.get(key) === request) inFlight.delete(key);
+      }
+      reject(signal?.reason ?? abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    (request.promise as Promise<T>).then(resolve, reject).finally(() => {
+      signal?.removeEventListener('abort', onAbort);
+    });
+  });
+};
+
+// `load` receives its own signal: the shared request outlives any single
+// caller's `signal`, and stale-while-revalidate refreshes are never aborted.
+export const cached = async <T>(
+  endpoint: CacheEndpoint,
+  key: string,
+  load: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const { ttl, staleTtl } = CACHE_POLICIES[endpoint];
+  const cacheKey = `${endpoint}:${key}`;
+  const entry = await readEntry(cacheKey);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+  if (entry && age < ttl) {
+    return entry.value as T;
+  }
+
+  if (entry && age < ttl + staleTtl) {
+    // Stale-while-revalidate: answer from cache now, refresh for next time
+    loadAndStore(cacheKey, load).catch((error) => {
+      console.error('Error revalidating cached response:', error);
+    });
+    return entry.value as T;
+  }
+
+  return loadAndStore(cacheKey, load, signal);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  try {
+    const entries = (await openDatabase())
+      ? (await runTransaction<CacheEntry[]>('readonly', (store) => store.getAll())) ?? []
+      : [...memoryStore.values()];
+
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    };
+  } catch (error) {
+    console.error('Error reading cache stats:', error);
+    return { entries: 0, bytes: 0 };
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  memoryStore.clear();
+  if (await openDatabase()) {
+    await runTransaction('readwrite', (store) => store.clear());
+  }
+};
@@ -0,0 +1,4 @@
+// All upstream calls go through our serverless routes in /api, which attach
+// the YouTube and Last.fm keys server-side so they never ship in the bundle.
+// Set VITE_API_BASE_URL to use routes hosted somewhere else.
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
@@ -0,0 +1,111 @@
+import type { LastFmTrack } from '../schemas';
+import { canonicalArtist, canonicalTitle } from '../trackIdentity';
+
+// Typed access to catalog.json (regenerate with `npm run demo:catalog`). The
+// JSON is only loaded once demo mode is actually used.
+
+export interface DemoArtist {
+  name: string;
+  genre: string;
+  tags: string[];
+  // [artist index, 0..1 similarity], closest first
+  similar: Array<[number, number]>;
+}
+
+export interface DemoTrack {
+  title: string;
+  artist: number;
+  videoId: string;
+  tags: string[];
+  listeners: number;
+  playcount: number;
+  durationSeconds: number;
+  hue: number;
+  // [track index, 0..1 similarity], closest first
+  similar: Array<[number, number]>;
+}
+
+export interface DemoCatalog {
+  artists: DemoArtist[];
+  tracks: DemoTrack[];
+  byVideoId: Map<string, DemoTrack>;
+  byIdentity: Map<string, DemoTrack>;
+}
+
+let catalogPromise: Promise<DemoCatalog> | null = null;
+
+const identity = (title: string, artist: string) => `${canonicalArtist(artist)}\u0000${canonicalTitle(title)}`;
+
+export const loadDemoCatalog = (): Promise<DemoCatalog> => {
+  if (!catalogPromise) {
+    catalogPromise = import('./catalog.json').then(({ default: data }) => {
+      const artists = data.artists as DemoArtist[];
+      const tracks = data.tracks as DemoTrack[];
+      return {
+        artists,
+        tracks,
+        byVideoId: new Map(tracks.map((track) => [track.videoId, track])),
+        byIdentity: new Map(tracks.map((track) => [identity(track.title, artists[track.artist].name), track])),
+      };
+    });
+  }
+  return catalogPromise;
+};
+
+export const findDemoTrack = (catalog: DemoCatalog, title: string, artist: string): DemoTrack | undefined =>
+  catalog.byIdentity.get(identity(title, artist));
+
+export const getDemoVideoUrl = (track: DemoTrack) => `https://www.youtube.com/watch?v=${track.videoId}`;
+
+// Generated cover: a two-tone gradient with the title's initials
+export const getDemoArtwork = (catalog: DemoCatalog, track: DemoTrack): string => {
+  const initials = track.title
+    .split(/\s+/)
+    .filter((word) => /^[A-Z]/.test(word))
+    .slice(0, 2)
+    .map((word) => word[0])
+    .join('');
+  const artist = catalog.artists[track.artist].name;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${track.hue},70%,55%)"/>` +
+    `<stop offset="1" stop-color="hsl(${(track.hue + 60) % 360},60%,25%)"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="300" height="300" fill="url(#g)"/>` +
+    `<text x="150" y="170" font-family="sans-serif" font-size="110" font-weight="700" fill="rgba(255,255,255,0.85)" text-anchor="middle">${initials}</text>` +
+    `<text x="150" y="270" font-family="sans-serif" font-size="18" fill="rgba(255,255,255,0.7)" text-anchor="middle">${artist.replace(/&/g, '&amp;')}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// The catalog in the Last.fm track shape the rest of the pipeline speaks
+export const toLastFmTrack = (catalog: DemoCatalog, track: DemoTrack, match?: number): LastFmTrack => {
+  const artist = catalog.artists[track.artist].name;
+  return {
+    name: track.title,
+    artist: { name: artist, mbid: undefined },
+    url: getDemoVideoUrl(track),
+    mbid: undefined,
+    image: [{ '#text': getDemoArtwork(catalog, track), size: 'extralarge' }],
+    match,
+    listeners: track.listeners,
+  };
+};
+
+export const getDemoTopTags = async (title: string, artist: string): Promise<string[]> => {
+  const catalog = await loadDemoCatalog();
+  return findDemoTrack(catalog, title, artist)?.tags ?? [];
+};
+
+export const getDemoTrackStats = async (title: string, artist: string): Promise<{ listeners?: number; playcount?: number }> => {
+  const catalog = await loadDemoCatalog();
+  const track = findDemoTrack(catalog, title, artist);
+  return { listeners: track?.listeners, playcount: track?.playcount };
+};
+
+export const getDemoSimilarArtists = async (artist: string): Promise<Array<{ name: string; match: number }>> => {
+  const catalog = await loadDemoCatalog();
+  const entry = catalog.artists.find((candidate) => canonicalArtist(candidate.name) === canonicalArtist(artist));
+  return entry?.similar.map(([index, match]) => ({ name: catalog.artists[index].name, match })) ?? [];
+};
@@ -0,0 +1,29 @@
+// Demo mode swaps every provider for the bundled catalog in src/lib/demo, so
+// the app works without API keys or network. Persisted per browser.
+
+const STORAGE_KEY = 'songLensDemoMode';
+
+const listeners = new Set<() => void>();
+
+let enabled = (() => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+})();
+
+export const isDemoMode = (): boolean => enabled;
+
+export const setDemoMode = (value: boolean) => {
+  enabled = value;
+  localStorage.setItem(STORAGE_KEY, String(value));
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToDemoMode = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
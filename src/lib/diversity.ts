@@ -0,0 +1,121 @@
+import type { SimilarTrack } from './api';
+import type { BlendedTrack } from './blend';
+import { mapWithConcurrency } from './concurrency';
+import { isAbortError } from './errors';
+import { lookupTags } from './explanations';
+import { canonicalArtist, getIdentityKeys } from './trackIdentity';
+
+// Re-ranks recommendations so a list isn't five songs by the same two
+// artists. Maximal marginal relevance (MMR) picks tracks one at a time,
+// taking the best mix of relevance and difference from everything picked so
+// far, with tracks compared by artist and by Last.fm tags. Variety 0 keeps
+// the relevance order; 1 maximizes difference. A per-artist cap then moves
+// an artist's extra tracks to the end of the list.
+
+// Tracks an artist gets before the rest of theirs go to the end
+export const PER_ARTIST_CAP = 2;
+
+// Share of the similarity between two tracks that comes from the artist; the
+// rest comes from their tags
+const ARTIST_WEIGHT = 0.5;
+const MAX_TAGS = 10;
+const TAG_CONCURRENCY = 4;
+
+// Tags are looked up once per track and kept for re-ranking at other
+// variety settings
+const tagCache = new Map<string, Set<string>>();
+
+type RankableTrack = SimilarTrack & Partial<Pick<BlendedTrack, 'blendScore'>>;
+
+const getKey = (track: SimilarTrack) => getIdentityKeys(track)[0];
+
+// Fetches tags for every track not seen before. A failed lookup counts as no
+// tags, which only makes the track look a little more different.
+export const loadTrackTags = async (tracks: SimilarTrack[], signal?: AbortSignal): Promise<void> => {
+  const missing = tracks.filter((track) => !tagCache.has(getKey(track)));
+  await mapWithConcurrency(missing, TAG_CONCURRENCY, async (track) => {
+    try {
+      const tags = await lookupTags({ title: track.name, artist: track.artist.name }, signal);
+      tagCache.set(getKey(track), new Set(tags.slice(0, MAX_TAGS)));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error loading tags for re-ranking:', error);
+    }
+  });
+};
+
+// Top tags first; empty until loaded or when the lookup failed
+export const getTrackTags = (track: SimilarTrack): string[] => [...(tagCache.get(getKey(track)) ?? [])];
+
+// Cosine similarity of the tags as binary vectors
+const tagSimilarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((tag) => {
+    if (b.has(tag)) shared++;
+  });
+  return shared / Math.sqrt(a.size * b.size);
+};
+
+interface Candidate<T> {
+  track: T;
+  artist: string;
+  tags: Set<string>;
+  relevance: number;
+}
+
+const similarity = <T>(a: Candidate<T>, b: Candidate<T>) =>
+  ARTIST_WEIGHT * Number(a.artist === b.artist) + (1 - ARTIST_WEIGHT) * tagSimilarity(a.tags, b.tags);
+
+interface DiversityOptions<T> {
+  perArtistCap?: number;
+  // Scales a track's relevance, e.g. to favor less popular tracks
+  weigh?: (track: T) => number;
+}
+
+// Blend score for multi-seed lists, else Last.fm match, else list position;
+// weighed, then scaled so the most relevant track is 1
+const getRelevance = <T extends RankableTrack>(tracks: T[], weigh: (track: T) => number): number[] => {
+  const raw = tracks.map((track, index) => (track.blendScore ?? track.match ?? 1 - index / tracks.length) * weigh(track));
+  const max = Math.max(...raw, Number.EPSILON);
+  return raw.map((value) => value / max);
+};
+
+export const diversify = <T extends RankableTrack>(
+  tracks: T[],
+  variety: number,
+  { perArtistCap = PER_ARTIST_CAP, weigh = () => 1 }: DiversityOptions<T> = {}
+): T[] => {
+  const relevance = getRelevance(tracks, weigh);
+  const remaining: Candidate<T>[] = tracks.map((track, index) => ({
+    track,
+    artist: canonicalArtist(track.artist.name),
+    tags: tagCache.get(getKey(track)) ?? new Set(),
+    relevance: relevance[index],
+  }));
+  const picked: Candidate<T>[] = [];
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = picked.length > 0 ? Math.max(...picked.map((other) => similarity(candidate, other))) : 0;
+      const score = (1 - variety) * candidate.relevance - variety * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    picked.push(...remaining.splice(bestIndex, 1));
+  }
+
+  const perArtist = new Map<string, number>();
+  const withinCap: T[] = [];
+  const overCap: T[] = [];
+  for (const { track, artist } of picked) {
+    const count = (perArtist.get(artist) ?? 0) + 1;
+    perArtist.set(artist, count);
+    (count > perArtistCap ? overCap : withinCap).push(track);
+  }
+  return [...withinCap, ...overCap];
+};
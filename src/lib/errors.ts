@@ -0,0 +1,119 @@
+// Typed errors for the API layer, so callers can tell "no results" from
+// "rate limited" from "bad key" from "offline".
+
+export type ApiService = 'youtube' | 'lastfm';
+
+export type ApiErrorDetail =
+  | { kind: 'network' }
+  | { kind: 'http'; status: number }
+  | { kind: 'rate-limited'; retryAfterMs?: number }
+  | { kind: 'quota-exceeded' }
+  | { kind: 'invalid-key' }
+  | { kind: 'not-found' }
+  | { kind: 'malformed-response' };
+
+export type ApiErrorKind = ApiErrorDetail['kind'];
+
+const SERVICE_NAMES: Record<ApiService, string> = {
+  youtube: 'YouTube',
+  lastfm: 'Last.fm',
+};
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  'network': 'could not be reached',
+  'http': 'request failed',
+  'rate-limited': 'is rate limiting requests',
+  'quota-exceeded': 'daily quota is used up',
+  'invalid-key': 'API key was rejected',
+  'not-found': 'has no matching result',
+  'malformed-response': 'returned an unexpected response',
+};
+
+export class ApiError extends Error {
+  readonly service: ApiService;
+  readonly detail: ApiErrorDetail;
+
+  constructor(service: ApiService, detail: ApiErrorDetail, message?: string) {
+    super(message ?? `${SERVICE_NAMES[service]} ${DEFAULT_MESSAGES[detail.kind]}`);
+    this.name = 'ApiError';
+    this.service = service;
+    this.detail = detail;
+  }
+
+  get kind(): ApiErrorKind {
+    return this.detail.kind;
+  }
+
+  // Transient failures worth retrying with backoff
+  get retryable(): boolean {
+    return (
+      this.detail.kind === 'network' ||
+      this.detail.kind === 'rate-limited' ||
+      (this.detail.kind === 'http' && this.detail.status >= 500)
+    );
+  }
+}
+
+export const isApiError = (error: unknown, kind?: ApiErrorKind): error is ApiError =>
+  error instanceof ApiError && (kind === undefined || error.kind === kind);
+
+// Cancelled requests reject with a DOMException named AbortError
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+// YouTube reports errors as { error: { code, errors: [{ reason }] } }
+export const classifyYouTubeError = (response: Response, data: unknown): ApiError | null => {
+  const error = (data as { error?: { message?: string; reason?: string; errors?: Array<{ reason?: string }> } })?.error;
+  if (response.ok && !error) return null;
+
+  const reasons = [error?.reason, ...(error?.errors || []).map((item) => item.reason)];
+  const message = error?.message;
+
+  if (reasons.includes('quotaExceeded') || reasons.includes('dailyLimitExceeded')) {
+    return new ApiError('youtube', { kind: 'quota-exceeded' });
+  }
+  if (reasons.includes('rateLimitExceeded') || reasons.includes('userRateLimitExceeded') || response.status === 429) {
+    return new ApiError('youtube', { kind: 'rate-limited', retryAfterMs: parseRetryAfter(response) });
+  }
+  if (reasons.includes('keyInvalid') || reasons.includes('keyMissing') || reasons.includes('accessNotConfigured')) {
+    return new ApiError('youtube', { kind: 'invalid-key' }, message);
+  }
+  if (response.status === 404) {
+    return new ApiError('youtube', { kind: 'not-found' });
+  }
+  return new ApiError('youtube', { kind: 'http', status: response.status }, message);
+};
+
+// Last.fm error codes, see https://www.last.fm/api/errorcodes. Errors can
+// arrive with a 200 status, so the body is always checked.
+const LASTFM_INVALID_KEY_CODES = [10, 26];
+const LASTFM_NOT_FOUND_CODES = [6];
+const LASTFM_RATE_LIMIT_CODES = [29];
+const LASTFM_TRANSIENT_CODES = [8, 11, 16];
+
+export const classifyLastFmError = (response: Response, data: unknown): ApiError | null => {
+  const body = data as { error?: number | { reason?: string }; message?: string } | null;
+  const code = typeof body?.error === 'number' ? body.error : undefined;
+  // Errors raised by our own /api proxy use the { error: { reason } } shape
+  const proxyReason = typeof body?.error === 'object' ? body.error.reason : undefined;
+  if (response.ok && body?.error === undefined) return null;
+
+  if ((code !== undefined && LASTFM_INVALID_KEY_CODES.includes(code)) || proxyReason === 'keyMissing') {
+    return new ApiError('lastfm', { kind: 'invalid-key' }, body?.message);
+  }
+  if (code !== undefined && LASTFM_NOT_FOUND_CODES.includes(code)) {
+    return new ApiError('lastfm', { kind: 'not-found' }, body?.message);
+  }
+  if ((code !== undefined && LASTFM_RATE_LIMIT_CODES.includes(code)) || response.status === 429) {
+    return new ApiError('lastfm', { kind: 'rate-limited', retryAfterMs: parseRetryAfter(response) });
+  }
+  if (code !== undefined && LASTFM_TRANSIENT_CODES.includes(code)) {
+    return new ApiError('lastfm', { kind: 'http', status: 503 }, body?.message);
+  }
+  return new ApiError('lastfm', { kind: 'http', status: response.status }, body?.message);
+};
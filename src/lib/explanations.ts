@@ -0,0 +1,57 @@
+import { getSimilarArtists, getTopTags, type RecommendationSource } from './api';
+import { getDemoSimilarArtists, getDemoTopTags } from './demo/catalog';
+import { isDemoMode } from './demoMode';
+import type { TrackRef } from './providers/types';
+import { canonicalArtist } from './trackIdentity';
+
+// Evidence for why a track was recommended, for the "Why this track?" panel.
+// Every lookup goes through the response cache, so the seed's tags and
+// similar artists are fetched once no matter how many cards are expanded.
+
+// Tags past this are too thinly used to count as shared
+const MAX_COMPARED_TAGS = 15;
+
+export interface RecommendationExplanation {
+  source: RecommendationSource;
+  matchScore?: number;
+  // Tags both tracks share, in the recommendation's order of weight
+  sharedTags: string[];
+  isSameArtist: boolean;
+  // Last.fm's 0..1 artist similarity, when the artist is in artist.getSimilar
+  // for the seed artist
+  similarArtistMatch?: number;
+}
+
+// Demo mode answers from the bundled catalog instead of Last.fm
+export const lookupTags = (ref: TrackRef, signal?: AbortSignal) =>
+  isDemoMode() ? getDemoTopTags(ref.title, ref.artist) : getTopTags(ref.title, ref.artist, signal);
+
+const lookupSimilarArtists = (artist: string, signal?: AbortSignal) =>
+  isDemoMode() ? getDemoSimilarArtists(artist) : getSimilarArtists(artist, signal);
+
+export const explainRecommendation = async (
+  seed: TrackRef,
+  track: TrackRef & { source: RecommendationSource; matchScore?: number },
+  signal?: AbortSignal
+): Promise<RecommendationExplanation> => {
+  const isSameArtist = canonicalArtist(seed.artist) === canonicalArtist(track.artist);
+
+  const [seedTags, trackTags, similarArtists] = await Promise.all([
+    lookupTags(seed, signal),
+    lookupTags(track, signal),
+    isSameArtist ? Promise.resolve([]) : lookupSimilarArtists(seed.artist, signal),
+  ]);
+
+  const seedTagSet = new Set(seedTags.slice(0, MAX_COMPARED_TAGS));
+  const similarArtist = similarArtists.find(
+    (artist) => canonicalArtist(artist.name) === canonicalArtist(track.artist)
+  );
+
+  return {
+    source: track.source,
+    matchScore: track.matchScore,
+    sharedTags: trackTags.slice(0, MAX_COMPARED_TAGS).filter((tag) => seedTagSet.has(tag)),
+    isSameArtist,
+    similarArtistMatch: similarArtist ? similarArtist.match ?? 0 : undefined,
+  };
+};
@@ -0,0 +1,103 @@
+import type { z } from 'zod';
+import { ApiError, classifyLastFmError, classifyYouTubeError, isAbortError, type ApiService } from './errors';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+const CLASSIFIERS = {
+  youtube: classifyYouTubeError,
+  lastfm: classifyLastFmError,
+};
+
+interface FetchJsonOptions {
+  headers?: Record<string, string>;
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    // Long-lived signals (radio, playlists) would otherwise collect a
+    // listener per retry
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter, honouring Retry-After when we got one
+const getRetryDelay = (error: ApiError, attempt: number) => {
+  if (error.detail.kind === 'rate-limited' && error.detail.retryAfterMs) {
+    return Math.min(error.detail.retryAfterMs, MAX_DELAY_MS);
+  }
+  const delay = BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(delay + Math.random() * delay * 0.25, MAX_DELAY_MS);
+};
+
+const fetchOnce = async (service: ApiService, url: string, headers?: Record<string, string>, signal?: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ApiError(service, { kind: 'network' });
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw response.ok
+      ? new ApiError(service, { kind: 'malformed-response' })
+      : new ApiError(service, { kind: 'http', status: response.status });
+  }
+
+  const error = CLASSIFIERS[service](response, data);
+  if (error) throw error;
+  return data;
+};
+
+// Validates a payload against its schema, so bad upstream data fails here
+// with a clear error instead of deep in rendering.
+const parsePayload = <S extends z.ZodTypeAny>(service: ApiService, schema: S, data: unknown): z.output<S> => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issue = result.error.issues[0];
+  console.error(`Malformed ${service} response:`, result.error.issues);
+  throw new ApiError(
+    service,
+    { kind: 'malformed-response' },
+    `Unexpected ${service === 'youtube' ? 'YouTube' : 'Last.fm'} response (${issue.path.join('.') || 'root'}: ${issue.message})`
+  );
+};
+
+// Fetches JSON from one of our /api routes and validates it against `schema`,
+// turning every failure into a typed ApiError and retrying transient ones
+// (offline, rate limits, 5xx). Aborting `signal` rejects with an AbortError,
+// including during a backoff wait.
+export const fetchJson = async <S extends z.ZodTypeAny>(
+  service: ApiService,
+  url: string,
+  schema: S,
+  options: FetchJsonOptions = {}
+): Promise<z.output<S>> => {
+  const { headers, retries = MAX_RETRIES, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return parsePayload(service, schema, await fetchOnce(service, url, headers, signal));
+    } catch (error) {
+      if (!(error instanceof ApiError) || !error.retryable || attempt >= retries) throw error;
+      await sleep(getRetryDelay(error, attempt), signal);
+    }
+  }
+};
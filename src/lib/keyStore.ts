@@ -0,0 +1,115 @@
+// API keys users bring themselves, kept in this browser's localStorage and
+// sent to our /api routes, which use them instead of the server's keys.
+// With a passphrase the keys are encrypted (AES-GCM, key derived with
+// PBKDF2) and only held in memory once unlocked.
+
+const STORAGE_KEY = 'songLensApiKeys';
+const PBKDF2_ITERATIONS = 250000;
+
+export interface ApiKeys {
+  youtube?: string;
+  lastfm?: string;
+}
+
+// 'none': nothing stored; 'locked': encrypted and not unlocked this session
+export type KeyStoreState = 'none' | 'locked' | 'unlocked';
+
+type StoredKeys =
+  | { encrypted: false; keys: ApiKeys }
+  | { encrypted: true; salt: string; iv: string; data: string };
+
+const listeners = new Set<() => void>();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const readStored = (): StoredKeys | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Error loading API keys:', error);
+    return null;
+  }
+};
+
+let unlockedKeys: ApiKeys | null = (() => {
+  const stored = readStored();
+  return stored && 'keys' in stored ? stored.keys : null;
+})();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const trimKeys = (keys: ApiKeys): ApiKeys => ({
+  youtube: keys.youtube?.trim() || undefined,
+  lastfm: keys.lastfm?.trim() || undefined,
+});
+
+export const getKeyStoreState = (): KeyStoreState => {
+  const stored = readStored();
+  if (!stored) return 'none';
+  return stored.encrypted && !unlockedKeys ? 'locked' : 'unlocked';
+};
+
+export const isKeyStoreEncrypted = (): boolean => readStored()?.encrypted ?? false;
+
+// Keys in use right now; empty while nothing is stored or the store is locked
+export const getApiKeys = (): ApiKeys => unlockedKeys ?? {};
+
+export const saveApiKeys = async (keys: ApiKeys, passphrase?: string): Promise<void> => {
+  const trimmed = trimKeys(keys);
+  let stored: StoredKeys = { encrypted: false, keys: trimmed };
+
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(trimmed)));
+    stored = { encrypted: true, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  unlockedKeys = trimmed;
+  notify();
+};
+
+// Rejects when the passphrase is wrong
+export const unlockApiKeys = async (passphrase: string): Promise<void> => {
+  const stored = readStored();
+  if (!stored || !('salt' in stored)) return;
+
+  const key = await deriveKey(passphrase, fromBase64(stored.salt));
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  unlockedKeys = JSON.parse(new TextDecoder().decode(decrypted));
+  notify();
+};
+
+export const clearApiKeys = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  unlockedKeys = null;
+  notify();
+};
+
+export const subscribeToKeyStore = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
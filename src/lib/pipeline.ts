@@ -0,0 +1,94 @@
+import { getRandomFallbackImage, type SeedMatch, type SimilarTrack } from './api';
+import { getProviders } from './providers/registry';
+import type { SeedMedia, TrackLink, TrackRef } from './providers/types';
+import { dedupeTracks } from './trackIdentity';
+
+// The steps of an analysis, each served by whichever providers are configured
+// for it in the registry. MusicDiscovery runs them in order and handles the
+// UI in between (seed picker, progress, errors).
+
+export interface Recommendation {
+  track: SimilarTrack;
+  link: TrackLink | null;
+  coverArt: string;
+  previewUrl?: string;
+  // Where the song opens when clicked
+  url?: string;
+}
+
+const firstAnswer = <T>(answers: Array<T | undefined>): T | undefined =>
+  answers.find((answer) => answer !== undefined);
+
+export const resolveSeedMedia = async (url: string, signal?: AbortSignal): Promise<SeedMedia | null> => {
+  for (const provider of getProviders('resolveSeed')) {
+    const media = await provider.resolveSeed(url, signal);
+    if (media) return media;
+  }
+  return null;
+};
+
+export const resolvePlaylistMedia = async (url: string, signal?: AbortSignal): Promise<SeedMedia[] | null> => {
+  for (const provider of getProviders('resolvePlaylist')) {
+    const items = await provider.resolvePlaylist(url, signal);
+    if (items) return items;
+  }
+  return null;
+};
+
+// Keeps the most confident answer, with every provider's candidates as
+// alternatives for the seed picker
+export const identifySeed = async (media: SeedMedia, signal?: AbortSignal): Promise<SeedMatch> => {
+  const providers = getProviders('identifySeed');
+  if (providers.length === 0) {
+    throw new Error('No music provider is configured to identify songs');
+  }
+
+  const matches = await Promise.all(providers.map((provider) => provider.identifySeed(media, signal)));
+  const best = matches.reduce((current, match) => (match.confidence > current.confidence ? match : current));
+
+  return {
+    ...best,
+    alternatives: matches
+      .flatMap((match) => match.alternatives)
+      .sort((a, b) => b.confidence - a.confidence),
+  };
+};
+
+// Merges every provider's similar tracks in configured order. `limit` asks
+// each provider for a deeper list than usual.
+export const findSimilarTracks = async (seed: TrackRef, signal?: AbortSignal, limit?: number): Promise<SimilarTrack[]> => {
+  const results = await Promise.all(
+    getProviders('getSimilarTracks').map((provider) => provider.getSimilarTracks(seed, signal, limit))
+  );
+  return dedupeTracks(results.flat(), [{ name: seed.title, artist: { name: seed.artist } }]);
+};
+
+// Finds playable links, artwork, previews and outbound links for each track.
+// Results keep the order of `tracks`.
+export const buildRecommendations = async (tracks: SimilarTrack[], signal?: AbortSignal): Promise<Recommendation[]> => {
+  const refs = tracks.map((track) => ({ title: track.name, artist: track.artist.name }));
+  const links: Array<TrackLink | null> = tracks.map(() => null);
+
+  // Later search providers only fill in what earlier ones couldn't match
+  for (const provider of getProviders('searchTracks')) {
+    const missing = links.flatMap((link, index) => (link ? [] : [index]));
+    if (missing.length === 0) break;
+
+    const found = await provider.searchTracks(missing.map((index) => refs[index]), signal);
+    missing.forEach((trackIndex, position) => {
+      links[trackIndex] = found[position];
+    });
+  }
+
+  return tracks.map((track, index) => {
+    const link = links[index];
+    return {
+      track,
+      link,
+      coverArt: firstAnswer(getProviders('getArtwork').map((provider) => provider.getArtwork(track, link)))
+        ?? getRandomFallbackImage(),
+      previewUrl: firstAnswer(getProviders('getPreviewUrl').map((provider) => provider.getPreviewUrl(track, link))),
+      url: firstAnswer(getProviders('getOutboundLink').map((provider) => provider.getOutboundLink(refs[index], link))),
+    };
+  });
+};
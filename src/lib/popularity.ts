@@ -0,0 +1,74 @@
+// Hidden gems: how popular a track is by its Last.fm listener count, and how
+// much the obscurity control holds that against it. The thresholds are
+// persisted per browser and editable in Settings.
+
+export interface PopularityThresholds {
+  // Fewer listeners than this is a hidden gem, never held back
+  gemBelow: number;
+  // More listeners than this is a hit, held back the most
+  hitAbove: number;
+}
+
+export type PopularityTier = 'gem' | 'hit';
+
+export const DEFAULT_POPULARITY_THRESHOLDS: PopularityThresholds = { gemBelow: 50_000, hitAbove: 1_000_000 };
+
+const STORAGE_KEY = 'songLensPopularityThresholds';
+
+const listeners = new Set<() => void>();
+
+export const getPopularityThresholds = (): PopularityThresholds => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_POPULARITY_THRESHOLDS, ...JSON.parse(saved) } : DEFAULT_POPULARITY_THRESHOLDS;
+  } catch (error) {
+    console.error('Error loading popularity thresholds:', error);
+    return DEFAULT_POPULARITY_THRESHOLDS;
+  }
+};
+
+export const setPopularityThresholds = (thresholds: PopularityThresholds) => {
+  if (!(thresholds.gemBelow > 0 && thresholds.hitAbove > thresholds.gemBelow)) {
+    throw new Error('The hit threshold must be above the hidden gem threshold');
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+  listeners.forEach((listener) => listener());
+};
+
+export const resetPopularityThresholds = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToPopularityThresholds = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPopularityTier = (
+  listenerCount: number | undefined,
+  { gemBelow, hitAbove }: PopularityThresholds
+): PopularityTier | undefined => {
+  if (listenerCount === undefined) return undefined;
+  if (listenerCount < gemBelow) return 'gem';
+  if (listenerCount > hitAbove) return 'hit';
+  return undefined;
+};
+
+// 0 for gems, 1 for hits, on a log scale in between since listener counts
+// span several orders of magnitude
+const getHitness = (listenerCount: number, { gemBelow, hitAbove }: PopularityThresholds) => {
+  if (listenerCount <= gemBelow) return 0;
+  if (listenerCount >= hitAbove) return 1;
+  return Math.log(listenerCount / gemBelow) / Math.log(hitAbove / gemBelow);
+};
+
+// Multiplies a track's relevance: at obscurity 1 hits lose all of it, gems
+// keep all of it. Tracks with no listener count are treated as middling.
+export const getObscurityWeight = (
+  listenerCount: number | undefined,
+  obscurity: number,
+  thresholds: PopularityThresholds
+): number => 1 - obscurity * (listenerCount === undefined ? 0.5 : getHitness(listenerCount, thresholds));
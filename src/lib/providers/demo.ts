@@ -0,0 +1,73 @@
+import type { SimilarTrack } from '../api';
+import { findDemoTrack, getDemoArtwork, getDemoVideoUrl, loadDemoCatalog, toLastFmTrack } from '../demo/catalog';
+import { ApiError } from '../errors';
+import { getVideoId } from '../youtubeUrl';
+import type { MusicProvider } from './types';
+
+// Serves every capability from the bundled catalog; used for all of them
+// while demo mode is on
+export const demoProvider: MusicProvider = {
+  id: 'demo',
+  name: 'Demo catalog',
+
+  resolveSeed: async (url) => {
+    const videoId = getVideoId(url);
+    if (!videoId) return null;
+
+    const catalog = await loadDemoCatalog();
+    const track = catalog.byVideoId.get(videoId);
+    if (!track) {
+      throw new ApiError('youtube', { kind: 'not-found' }, "That video isn't in the demo catalog");
+    }
+
+    return {
+      providerId: 'demo',
+      id: videoId,
+      url,
+      title: `${catalog.artists[track.artist].name} - ${track.title} (Official Video)`,
+      channelTitle: catalog.artists[track.artist].name,
+      thumbnail: getDemoArtwork(catalog, track),
+      durationSeconds: track.durationSeconds,
+    };
+  },
+
+  identifySeed: async (media) => {
+    const catalog = await loadDemoCatalog();
+    const track = catalog.byVideoId.get(media.id);
+    const artist = catalog.artists[track.artist].name;
+    const scored = { track: toLastFmTrack(catalog, track), candidate: { artist, title: track.title, score: 1 }, confidence: 1 };
+
+    return { ...scored, alternatives: [scored] };
+  },
+
+  getSimilarTracks: async (seed, _signal, limit) => {
+    const catalog = await loadDemoCatalog();
+    const track = findDemoTrack(catalog, seed.title, seed.artist);
+    if (!track) return [];
+
+    return track.similar.slice(0, limit).map(([index, match]): SimilarTrack => ({
+      ...toLastFmTrack(catalog, catalog.tracks[index], match),
+      source: 'similar',
+    }));
+  },
+
+  searchTracks: async (tracks) => {
+    const catalog = await loadDemoCatalog();
+    return tracks.map((ref) => {
+      const track = findDemoTrack(catalog, ref.title, ref.artist);
+      return track
+        ? {
+          providerId: 'demo',
+          id: track.videoId,
+          url: getDemoVideoUrl(track),
+          thumbnail: getDemoArtwork(catalog, track),
+          durationSeconds: track.durationSeconds,
+        }
+        : null;
+    });
+  },
+
+  getArtwork: (track) => track.image?.[0]?.['#text'],
+
+  getOutboundLink: (_track, link) => link?.url,
+};
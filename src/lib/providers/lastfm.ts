@@ -0,0 +1,16 @@
+import { findLastFmSeed, getLastFmCoverArt, getSimilarTracks } from '../api';
+import type { MusicProvider } from './types';
+
+export const lastFmProvider: MusicProvider = {
+  id: 'lastfm',
+  name: 'Last.fm',
+
+  identifySeed: (media, signal) => findLastFmSeed(media, signal),
+
+  getSimilarTracks: (seed, signal, limit) => getSimilarTracks(seed.title, seed.artist, signal, limit),
+
+  getArtwork: (track) => getLastFmCoverArt(track),
+
+  getOutboundLink: (track) =>
+    `https://www.last.fm/music/${encodeURIComponent(track.artist)}/_/${encodeURIComponent(track.title)}`,
+};
@@ -0,0 +1,69 @@
+import { isDemoMode } from '../demoMode';
+import { demoProvider } from './demo';
+import { lastFmProvider } from './lastfm';
+import type { MusicProvider, ProviderCapability, ProviderWith } from './types';
+import { youtubeProvider } from './youtube';
+
+// Which providers serve each capability, in order. Single-answer
+// capabilities (seed, artwork, links) use the first provider that answers;
+// similar tracks and seed identification are combined across all of them.
+export type ProviderConfig = Record<ProviderCapability, string[]>;
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  resolveSeed: ['youtube'],
+  resolvePlaylist: ['youtube'],
+  identifySeed: ['lastfm'],
+  getSimilarTracks: ['lastfm'],
+  searchTracks: ['youtube'],
+  getArtwork: ['lastfm', 'youtube'],
+  getPreviewUrl: ['youtube'],
+  getOutboundLink: ['youtube'],
+};
+
+const providers = new Map<string, MusicProvider>([
+  [youtubeProvider.id, youtubeProvider],
+  [lastFmProvider.id, lastFmProvider],
+  [demoProvider.id, demoProvider],
+]);
+
+let providerConfig: ProviderConfig = DEFAULT_PROVIDER_CONFIG;
+
+export const registerProvider = (provider: MusicProvider) => {
+  providers.set(provider.id, provider);
+};
+
+// Overrides the provider order for the given capabilities
+export const configureProviders = (overrides: Partial<ProviderConfig>) => {
+  providerConfig = { ...providerConfig, ...overrides };
+};
+
+// VITE_PROVIDERS overrides the order at build time, as JSON in the shape of
+// ProviderConfig, e.g. {"getArtwork":["youtube","lastfm"]}. Unknown
+// capabilities and malformed entries are ignored.
+const readProviderOverrides = (): Partial<ProviderConfig> => {
+  const raw = import.meta.env.VITE_PROVIDERS;
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([capability, ids]) =>
+        capability in DEFAULT_PROVIDER_CONFIG && Array.isArray(ids) && ids.every((id) => typeof id === 'string')
+      )
+    );
+  } catch (error) {
+    console.error('Error parsing VITE_PROVIDERS:', error);
+    return {};
+  }
+};
+
+configureProviders(readProviderOverrides());
+
+export const getProviderConfig = (): ProviderConfig => providerConfig;
+
+// Configured providers that implement `capability`, in configured order.
+// Demo mode overrides the configuration with the bundled catalog.
+export const getProviders = <C extends ProviderCapability>(capability: C): ProviderWith<C>[] =>
+  (isDemoMode() ? [demoProvider.id] : providerConfig[capability])
+    .map((id) => providers.get(id))
+    .filter((provider): provider is ProviderWith<C> => typeof provider?.[capability] === 'function');
@@ -0,0 +1,51 @@
+import type { SeedMatch, SimilarTrack } from '../api';
+
+// A music service the analysis pipeline can draw on. Every capability is
+// optional; the registry only asks providers for what they implement.
+
+export interface TrackRef {
+  title: string;
+  artist: string;
+}
+
+// What the pasted link points at, before we know which song it is
+export interface SeedMedia {
+  providerId: string;
+  id: string;
+  url: string;
+  title: string;
+  channelTitle: string;
+  thumbnail?: string;
+  durationSeconds?: number;
+}
+
+// A playable copy of a track on some provider, e.g. a YouTube video
+export interface TrackLink {
+  providerId: string;
+  id: string;
+  url: string;
+  thumbnail?: string;
+  durationSeconds?: number;
+}
+
+export interface MusicProvider {
+  readonly id: string;
+  readonly name: string;
+  // Resolves a pasted URL, or null when the URL isn't for this provider
+  resolveSeed?(url: string, signal?: AbortSignal): Promise<SeedMedia | null>;
+  // Every item of a pasted playlist URL, or null when it isn't a playlist here
+  resolvePlaylist?(url: string, signal?: AbortSignal): Promise<SeedMedia[] | null>;
+  // Works out which song the seed media is, with a confidence score
+  identifySeed?(media: SeedMedia, signal?: AbortSignal): Promise<SeedMatch>;
+  // Up to `limit` tracks, or the provider's default amount
+  getSimilarTracks?(seed: TrackRef, signal?: AbortSignal, limit?: number): Promise<SimilarTrack[]>;
+  // Finds a playable link per track, null where nothing matched; keeps order
+  searchTracks?(tracks: TrackRef[], signal?: AbortSignal): Promise<Array<TrackLink | null>>;
+  getArtwork?(track: SimilarTrack, link?: TrackLink | null): string | undefined;
+  getPreviewUrl?(track: SimilarTrack, link?: TrackLink | null): string | undefined;
+  getOutboundLink?(track: TrackRef, link?: TrackLink | null): string | undefined;
+}
+
+export type ProviderCapability = Exclude<keyof MusicProvider, 'id' | 'name'>;
+
+export type ProviderWith<C extends ProviderCapability> = MusicProvider & Required<Pick<MusicProvider, C>>;
@@ -0,0 +1,63 @@
+import { getYouTubePlaylistItems, getYouTubeVideoDetails, resolveYouTubeTracks } from '../api';
+import { getVideoId, parseYouTubeUrl } from '../youtubeUrl';
+import type { MusicProvider } from './types';
+
+export const youtubeProvider: MusicProvider = {
+  id: 'youtube',
+  name: 'YouTube',
+
+  resolveSeed: async (url, signal) => {
+    const videoId = getVideoId(url);
+    if (!videoId) return null;
+
+    const video = await getYouTubeVideoDetails(videoId, signal);
+    return {
+      providerId: 'youtube',
+      id: videoId,
+      url,
+      title: video.title,
+      channelTitle: video.channelTitle,
+      thumbnail: video.thumbnail,
+      durationSeconds: video.durationSeconds,
+    };
+  },
+
+  resolvePlaylist: async (url, signal) => {
+    const parsed = parseYouTubeUrl(url);
+    if (parsed?.kind !== 'playlist') return null;
+
+    const videos = await getYouTubePlaylistItems(parsed.playlistId, signal);
+    return videos.map((video) => ({
+      providerId: 'youtube',
+      id: video.videoId,
+      url: `https://www.youtube.com/watch?v=${video.videoId}`,
+      title: video.title,
+      channelTitle: video.channelTitle,
+      thumbnail: video.thumbnail,
+    }));
+  },
+
+  searchTracks: async (tracks, signal) => {
+    const matches = await resolveYouTubeTracks(tracks, signal);
+    return matches.map((match) =>
+      match && {
+        providerId: 'youtube',
+        id: match.videoId,
+        url: match.url,
+        thumbnail: match.thumbnail,
+        durationSeconds: match.durationSeconds,
+      }
+    );
+  },
+
+  getArtwork: (_track, link) => (link?.providerId === 'youtube' ? link.thumbnail : undefined),
+
+  getPreviewUrl: (_track, link) =>
+    link?.providerId === 'youtube' ? `https://www.youtube-nocookie.com/embed/${link.id}?autoplay=1` : undefined,
+
+  // Falls back to a results page when no video was matched
+  getOutboundLink: (track, link) =>
+    link?.providerId === 'youtube'
+      ? link.url
+      : `https://www.youtube.com/results?search_query=${encodeURIComponent(`${track.artist} ${track.title}`)}`,
+};
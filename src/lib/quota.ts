@@ -0,0 +1,194 @@
+// YouTube Data API quota accountant. Tracks the units spent per key per day
+// (quota resets at midnight Pacific time), picks the key with the most budget
+// left from the server's pool, and refuses lower-priority calls first as the
+// budget runs out. The server instance answering GET /api/config reports
+// what the browsers it served spent on the pool, an estimate since instances
+// don't share counts; this browser's own ledger covers the gap between polls.
+
+import { API_BASE_URL } from './config';
+import { getApiKeys, subscribeToKeyStore } from './keyStore';
+
+const STORAGE_KEY = 'songLensQuota';
+const DAILY_QUOTA_PER_KEY = Number(import.meta.env.VITE_YOUTUBE_DAILY_QUOTA) || 10000;
+
+// Units per call, from https://developers.google.com/youtube/v3/determine_quota_cost
+export const YOUTUBE_QUOTA_COSTS = {
+  videos: 1,
+  playlistItems: 1,
+  search: 100,
+} as const;
+
+// critical: the seed video lookup; normal: links for the top recommendations;
+// low: links for the rest, which are the first thing we give up.
+export type QuotaPriority = 'critical' | 'normal' | 'low';
+
+// Share of the total daily budget that must stay untouched for a call of each
+// priority to go ahead.
+const PRIORITY_RESERVE: Record<QuotaPriority, number> = {
+  critical: 0,
+  normal: 0.1,
+  low: 0.3,
+};
+
+export type QuotaLevel = 'ok' | 'low' | 'exhausted';
+
+export interface QuotaBudget {
+  remaining: number;
+  total: number;
+  level: QuotaLevel;
+}
+
+// Whose quota a call spends: the user's own key, or a server key by its
+// index in the pool
+export type QuotaKey = 'user' | `pool:${number}`;
+
+interface QuotaLedger {
+  day: string;
+  spent: Partial<Record<QuotaKey, number>>;
+  // Fingerprint of the user key the 'user' entry was counted for
+  userKeyId?: string;
+}
+
+// What the server counted for its pool today, see api/_lib/upstream.ts
+interface ServerQuotaUsage {
+  day: string;
+  spent: number[];
+  exhausted: number[];
+}
+
+// How stale the server's counts may get before asking again
+const SERVER_QUOTA_MAX_AGE_MS = 60 * 1000;
+
+const listeners = new Set<() => void>();
+let keyPoolSize = 1;
+let serverUsage: ServerQuotaUsage | null = null;
+let serverUsageLoadedAt = 0;
+let serverConfigPromise: Promise<void> | null = null;
+
+const getQuotaDay = () =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(new Date());
+
+// Not a secret, just enough to tell one user key from the next (FNV-1a)
+const fingerprint = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const readLedger = (): QuotaLedger => {
+  const today = getQuotaDay();
+  const userKey = getApiKeys().youtube;
+  const userKeyId = userKey ? fingerprint(userKey) : undefined;
+  let ledger: QuotaLedger = { day: today, spent: {}, userKeyId };
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed: QuotaLedger | null = saved ? JSON.parse(saved) : null;
+    if (parsed?.day === today) ledger = parsed;
+  } catch (error) {
+    console.error('Error loading quota ledger:', error);
+  }
+
+  // A different key of the user's own starts with its full quota
+  if (ledger.userKeyId !== userKeyId) {
+    ledger = { ...ledger, spent: { ...ledger.spent, user: 0 }, userKeyId };
+  }
+  return ledger;
+};
+
+const writeLedger = (ledger: QuotaLedger) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ledger));
+  listeners.forEach((listener) => listener());
+};
+
+// The larger of our own count and the server's: the server instance sees
+// other browsers' spending, but only as of the last poll. It knows nothing of
+// user keys.
+const getSpent = (ledger: QuotaLedger, key: QuotaKey) => {
+  const own = ledger.spent[key] ?? 0;
+  if (key === 'user' || serverUsage?.day !== ledger.day) return own;
+  const slot = getKeySlot(key);
+  if (serverUsage.exhausted.includes(slot)) return DAILY_QUOTA_PER_KEY;
+  return Math.max(own, serverUsage.spent[slot] ?? 0);
+};
+
+const getRemaining = (ledger: QuotaLedger, key: QuotaKey) =>
+  Math.max(0, DAILY_QUOTA_PER_KEY - getSpent(ledger, key));
+
+// Ask the server for its pool size and today's usage, at most once a minute
+const loadServerConfig = (): Promise<void> => {
+  if (serverConfigPromise) return serverConfigPromise;
+  if (Date.now() - serverUsageLoadedAt < SERVER_QUOTA_MAX_AGE_MS) return Promise.resolve();
+
+  serverConfigPromise = fetch(`${API_BASE_URL}/config`)
+    .then((response) => (response.ok ? response.json() : null))
+    .then((config) => {
+      if (config?.youtubeKeyPoolSize > 0) keyPoolSize = config.youtubeKeyPoolSize;
+      if (config?.youtubeQuota) serverUsage = config.youtubeQuota;
+      listeners.forEach((listener) => listener());
+    })
+    .catch((error) => {
+      console.error('Error loading API config:', error);
+    })
+    .finally(() => {
+      serverUsageLoadedAt = Date.now();
+      serverConfigPromise = null;
+    });
+  return serverConfigPromise;
+};
+
+// The pool slot a server key goes by in the X-YouTube-Key-Slot header
+export const getKeySlot = (key: `pool:${number}`): number => Number(key.slice('pool:'.length));
+
+// A key of the user's own replaces the whole server pool
+const getQuotaKeys = (): QuotaKey[] =>
+  getApiKeys().youtube ? ['user'] : Array.from({ length: keyPoolSize }, (_, slot): QuotaKey => `pool:${slot}`);
+
+subscribeToKeyStore(() => listeners.forEach((listener) => listener()));
+
+export const getQuotaBudget = (): QuotaBudget => {
+  const ledger = readLedger();
+  const keys = getQuotaKeys();
+  const total = DAILY_QUOTA_PER_KEY * keys.length;
+  const remaining = keys.reduce((sum, key) => sum + getRemaining(ledger, key), 0);
+
+  const level: QuotaLevel =
+    remaining < YOUTUBE_QUOTA_COSTS.search ? 'exhausted'
+    : remaining < total * PRIORITY_RESERVE.low ? 'low'
+    : 'ok';
+
+  return { remaining, total, level };
+};
+
+// Reserves `units` on the key with the most budget left and returns it, or
+// null when the call's priority doesn't allow spending what's left.
+export const reserveQuota = async (units: number, priority: QuotaPriority): Promise<QuotaKey | null> => {
+  await loadServerConfig();
+
+  const ledger = readLedger();
+  const { remaining, total } = getQuotaBudget();
+  if (remaining - units < total * PRIORITY_RESERVE[priority]) return null;
+
+  const [bestKey] = getQuotaKeys().sort((a, b) => getRemaining(ledger, b) - getRemaining(ledger, a));
+  if (getRemaining(ledger, bestKey) < units) return null;
+
+  ledger.spent[bestKey] = (ledger.spent[bestKey] ?? 0) + units;
+  writeLedger(ledger);
+  return bestKey;
+};
+
+// YouTube told us this key is out of quota, whatever our own count says
+export const markKeyExhausted = (key: QuotaKey) => {
+  const ledger = readLedger();
+  ledger.spent[key] = DAILY_QUOTA_PER_KEY;
+  writeLedger(ledger);
+};
+
+export const subscribeToQuota = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  loadServerConfig();
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,99 @@
+import { blendSimilarTracks, type BlendedTrack } from './blend';
+import { findSimilarTracks } from './pipeline';
+import type { TrackRef } from './providers/types';
+import { canonicalArtist, dedupeTracks, getIdentityKeys, trackFromRef } from './trackIdentity';
+
+// Radio mode: keeps extending a recommendation list with tracks similar to
+// ones already in it. Drift decides which tracks it branches from: 0 keeps
+// returning to the seed and the earliest picks, 1 follows the newest picks
+// wherever they lead. Recently picked artists sit out a few tracks so one
+// artist can't take over the station.
+
+export interface RadioState {
+  // Everything shown so far, oldest first, starting with the seed
+  played: TrackRef[];
+  // Identity keys of played tracks with no unplayed similar tracks left
+  exhausted: string[];
+}
+
+// How many picks an artist has to wait before appearing again
+export const ARTIST_COOLDOWN = 4;
+// Tracks branched from per batch
+const ANCHOR_COUNT = 3;
+// Batches of anchors tried before giving up when everything is used up
+const MAX_ROUNDS = 3;
+
+const getKey = (track: TrackRef) => getIdentityKeys(trackFromRef(track))[0];
+
+export const startRadio = (seed: TrackRef, shown: TrackRef[]): RadioState => ({
+  played: [seed, ...shown],
+  exhausted: [],
+});
+
+// A window of ANCHOR_COUNT tracks, sliding from the oldest to the newest
+const pickAnchors = (candidates: TrackRef[], drift: number): TrackRef[] => {
+  const start = Math.round(drift * Math.max(0, candidates.length - ANCHOR_COUNT));
+  return candidates.slice(start, start + ANCHOR_COUNT);
+};
+
+// Best-ranked tracks whose artist isn't cooling down
+const pickWithCooldown = (tracks: BlendedTrack[], played: TrackRef[], count: number): BlendedTrack[] => {
+  const recentArtists = played.slice(-ARTIST_COOLDOWN).map((track) => canonicalArtist(track.artist));
+  const picks: BlendedTrack[] = [];
+
+  for (const track of tracks) {
+    if (picks.length === count) break;
+    const artist = canonicalArtist(track.artist.name);
+    if (recentArtists.includes(artist)) continue;
+
+    picks.push(track);
+    recentArtists.push(artist);
+    if (recentArtists.length > ARTIST_COOLDOWN) recentArtists.shift();
+  }
+  return picks;
+};
+
+// Up to `count` new tracks and the state to continue from. An empty list
+// means the station ran dry.
+export const nextRadioTracks = async (
+  state: RadioState,
+  count: number,
+  drift: number,
+  signal?: AbortSignal
+): Promise<{ tracks: BlendedTrack[]; state: RadioState }> => {
+  const exhausted = new Set(state.exhausted);
+  // Anchors already tried in this call
+  const tried = new Set<string>();
+  const played = state.played.map(trackFromRef);
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const candidates = state.played.filter((track) => !exhausted.has(getKey(track)) && !tried.has(getKey(track)));
+    if (candidates.length === 0) break;
+
+    const anchors = pickAnchors(candidates, drift);
+    const results = await Promise.all(
+      anchors.map(async (anchor) => ({ seed: anchor, tracks: await findSimilarTracks(anchor, signal) }))
+    );
+    signal?.throwIfAborted();
+
+    for (const result of results) {
+      if (dedupeTracks(result.tracks, played).length === 0) exhausted.add(getKey(result.seed));
+    }
+
+    const picks = pickWithCooldown(blendSimilarTracks(results, state.played), state.played, count);
+    if (picks.length > 0) {
+      return {
+        tracks: picks,
+        state: {
+          played: [...state.played, ...picks.map((track) => ({ title: track.name, artist: track.artist.name }))],
+          exhausted: [...exhausted],
+        },
+      };
+    }
+
+    // Everything left was by cooling-down artists; branch from other tracks
+    anchors.forEach((anchor) => tried.add(getKey(anchor)));
+  }
+
+  return { tracks: [], state: { ...state, exhausted: [...exhausted] } };
+};
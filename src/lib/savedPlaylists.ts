@@ -0,0 +1,70 @@
+// Discovery trails saved as playlists in this browser. Creating a real
+// YouTube playlist needs OAuth, so we link to watch_videos instead, which
+// plays the videos as an unsaved playlist the user can save from YouTube.
+
+import { getVideoId } from './youtubeUrl';
+
+const STORAGE_KEY = 'songLensSavedPlaylists';
+// watch_videos ignores ids past the 50th
+const MAX_WATCH_VIDEOS = 50;
+
+export interface SavedPlaylistSong {
+  title: string;
+  artist: string;
+  youtubeUrl?: string;
+}
+
+export interface SavedPlaylist {
+  id: string;
+  name: string;
+  createdAt: number;
+  songs: SavedPlaylistSong[];
+}
+
+const listeners = new Set<() => void>();
+
+export const getSavedPlaylists = (): SavedPlaylist[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading saved playlists:', error);
+    return [];
+  }
+};
+
+const writePlaylists = (playlists: SavedPlaylist[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(playlists));
+  listeners.forEach((listener) => listener());
+};
+
+export const savePlaylist = (name: string, songs: SavedPlaylistSong[]): SavedPlaylist => {
+  const playlist: SavedPlaylist = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    songs: songs.map(({ title, artist, youtubeUrl }) => ({ title, artist, youtubeUrl })),
+  };
+  writePlaylists([playlist, ...getSavedPlaylists()]);
+  return playlist;
+};
+
+export const deleteSavedPlaylist = (id: string) => {
+  writePlaylists(getSavedPlaylists().filter((playlist) => playlist.id !== id));
+};
+
+// Null when none of the songs has a YouTube video (e.g. only search links)
+export const getYouTubePlaylistUrl = (songs: SavedPlaylistSong[]): string | null => {
+  const videoIds = songs
+    .map((song) => (song.youtubeUrl ? getVideoId(song.youtubeUrl) : null))
+    .filter((id): id is string => id !== null)
+    .slice(0, MAX_WATCH_VIDEOS);
+  return videoIds.length > 0 ? `https://www.youtube.com/watch_videos?video_ids=${videoIds.join(',')}` : null;
+};
+
+export const subscribeToSavedPlaylists = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
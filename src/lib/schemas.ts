@@ -0,0 +1,126 @@
+import { z } from 'zod';
+
+// Schemas for every upstream payload we read. Parsing also normalizes the
+// Last.fm quirks so the rest of the app always sees the same shapes.
+
+// Last.fm returns a bare object instead of a one-element array when there is
+// a single match, and sometimes an empty string when there are none.
+const asArray = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) => (value == null || value === '' ? [] : Array.isArray(value) ? value : [value]),
+    z.array(item)
+  );
+
+// Numbers such as listeners or match arrive as strings
+const lastFmNumber = z.coerce.number().optional();
+
+const lastFmImageSchema = z.object({
+  '#text': z.string(),
+  size: z.string(),
+});
+
+// track.search gives the artist as a plain string, the other methods as an
+// object; normalize to the object form.
+const lastFmArtistSchema = z.union([
+  z.string().transform((name) => ({ name, mbid: undefined as string | undefined })),
+  z.object({ name: z.string(), mbid: z.string().optional() }),
+]);
+
+export const lastFmTrackSchema = z.object({
+  name: z.string(),
+  artist: lastFmArtistSchema,
+  url: z.string(),
+  mbid: z.string().optional(),
+  image: asArray(lastFmImageSchema).optional(),
+  match: lastFmNumber,
+  listeners: lastFmNumber,
+});
+
+export type LastFmTrack = z.infer<typeof lastFmTrackSchema>;
+
+export const lastFmTrackSearchSchema = z.object({
+  results: z.object({
+    trackmatches: z.preprocess(
+      (value) => (value === '' ? {} : value),
+      z.object({ track: asArray(lastFmTrackSchema) })
+    ),
+  }),
+});
+
+export const lastFmSimilarTracksSchema = z.object({
+  similartracks: z.object({ track: asArray(lastFmTrackSchema) }),
+});
+
+export const lastFmArtistTopTracksSchema = z.object({
+  toptracks: z.object({ track: asArray(lastFmTrackSchema) }),
+});
+
+// track.getInfo: duration is in milliseconds, "0" when unknown
+export const lastFmTrackInfoSchema = z.object({
+  track: z.object({
+    name: z.string(),
+    artist: lastFmArtistSchema,
+    duration: lastFmNumber,
+    listeners: lastFmNumber,
+    playcount: lastFmNumber,
+  }),
+});
+
+// track.getTopTags and artist.getTopTags; count is a 0..100 weight
+export const lastFmTopTagsSchema = z.object({
+  toptags: z.object({
+    tag: asArray(z.object({ name: z.string(), count: lastFmNumber })),
+  }),
+});
+
+const lastFmSimilarArtistSchema = z.object({ name: z.string(), match: lastFmNumber });
+
+export type LastFmSimilarArtist = z.infer<typeof lastFmSimilarArtistSchema>;
+
+export const lastFmSimilarArtistsSchema = z.object({
+  similarartists: z.object({ artist: asArray(lastFmSimilarArtistSchema) }),
+});
+
+const youtubeThumbnailSchema = z.object({ url: z.string() }).optional();
+
+const youtubeSnippetSchema = z.object({
+  title: z.string(),
+  channelTitle: z.string(),
+  thumbnails: z.object({
+    default: youtubeThumbnailSchema,
+    medium: youtubeThumbnailSchema,
+    high: youtubeThumbnailSchema,
+  }),
+});
+
+export const youtubeVideoListSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      snippet: youtubeSnippetSchema.optional(),
+      contentDetails: z.object({ duration: z.string() }).optional(),
+    })
+  ).default([]),
+});
+
+// Deleted and private videos stay in playlists, without an owner channel
+export const youtubePlaylistItemsSchema = z.object({
+  nextPageToken: z.string().optional(),
+  items: z.array(
+    z.object({
+      snippet: youtubeSnippetSchema.extend({
+        videoOwnerChannelTitle: z.string().optional(),
+        resourceId: z.object({ videoId: z.string() }),
+      }),
+    })
+  ).default([]),
+});
+
+export const youtubeSearchSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.object({ videoId: z.string() }),
+      snippet: youtubeSnippetSchema,
+    })
+  ).default([]),
+});
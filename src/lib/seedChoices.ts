@@ -0,0 +1,25 @@
+// Seed songs the user picked by hand, keyed by YouTube video id, so
+// re-analyzing the same video skips the disambiguation prompt.
+
+const STORAGE_KEY = 'songLensSeedChoices';
+
+export interface SeedChoice {
+  artist: string;
+  title: string;
+}
+
+const readChoices = (): Record<string, SeedChoice> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading seed choices:', error);
+    return {};
+  }
+};
+
+export const getSeedChoice = (videoId: string): SeedChoice | null => readChoices()[videoId] ?? null;
+
+export const rememberSeedChoice = (videoId: string, choice: SeedChoice) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readChoices(), [videoId]: choice }));
+};
@@ -0,0 +1,65 @@
+import type { LastFmTrack } from './schemas';
+import { stringSimilarity } from './similarity';
+import type { SeedCandidate } from './titleParser';
+
+// Below this the UI warns that the seed song may be wrong
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+// Below this the match is too weak to use without asking the user
+const PICKER_CONFIDENCE_THRESHOLD = 0.4;
+// Runners-up this close to the best match by another artist (covers, common
+// titles) make the match ambiguous even when it scores well
+const AMBIGUITY_MARGIN = 0.05;
+
+export interface ScoredTrack {
+  track: LastFmTrack;
+  candidate: SeedCandidate;
+  confidence: number;
+}
+
+interface MatchSignals {
+  youtubeDurationSeconds?: number;
+  lastFmDurationSeconds?: number;
+}
+
+// Full agreement within a few seconds, none beyond a minute
+const durationAgreement = (a: number, b: number) => {
+  const difference = Math.abs(a - b);
+  if (difference <= 5) return 1;
+  return Math.max(0, 1 - (difference - 5) / 55);
+};
+
+// log10 scale: ~10M listeners is as popular as it gets
+const popularity = (listeners?: number) =>
+  listeners ? Math.min(1, Math.log10(listeners + 1) / 7) : 0;
+
+// How well a Last.fm search hit matches the (artist, title) parsed from the
+// video. Name similarity dominates; duration agreement and listener counts
+// break ties between covers, remixes and the original.
+export const scoreSeedMatch = (track: LastFmTrack, candidate: SeedCandidate, signals: MatchSignals = {}): number => {
+  const titleScore = stringSimilarity(candidate.title, track.name);
+  const artistScore = stringSimilarity(candidate.artist, track.artist.name);
+  const textScore = 0.6 * titleScore + 0.4 * artistScore;
+
+  const { youtubeDurationSeconds, lastFmDurationSeconds } = signals;
+  const hasDurations = Boolean(youtubeDurationSeconds && lastFmDurationSeconds);
+
+  const score = hasDurations
+    ? 0.7 * textScore + 0.2 * durationAgreement(youtubeDurationSeconds, lastFmDurationSeconds) + 0.1 * popularity(track.listeners)
+    : 0.85 * textScore + 0.15 * popularity(track.listeners);
+
+  // Less likely title layouts make for less certain matches
+  return score * (0.8 + 0.2 * candidate.score);
+};
+
+// Whether to ask the user which track they meant before recommending
+export const isAmbiguousMatch = (alternatives: ScoredTrack[]): boolean => {
+  const [best, ...rest] = alternatives;
+  // Nothing matched at all; let the user type the song in
+  if (!best) return true;
+  if (best.confidence < PICKER_CONFIDENCE_THRESHOLD) return true;
+
+  return rest.some((entry) =>
+    best.confidence - entry.confidence <= AMBIGUITY_MARGIN &&
+    entry.track.artist.name.toLowerCase() !== best.track.artist.name.toLowerCase()
+  );
+};
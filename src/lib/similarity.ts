@@ -0,0 +1,47 @@
+// Fuzzy string comparison for matching track and artist names across services
+
+// Lowercase, strip accents and punctuation, "&" -> "and"
+export const normalizeForComparison = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let index = 0; index < compact.length - 1; index++) {
+    pairs.push(compact.slice(index, index + 2));
+  }
+  return pairs;
+};
+
+// Sørensen–Dice coefficient over character bigrams: 1 for identical names,
+// 0 for nothing in common. Robust to word order and small typos.
+export const stringSimilarity = (a: string, b: string): number => {
+  const left = normalizeForComparison(a);
+  const right = normalizeForComparison(b);
+  if (left === right) return 1;
+  if (!left || !right) return 0;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const pair of leftPairs) counts.set(pair, (counts.get(pair) ?? 0) + 1);
+
+  let shared = 0;
+  for (const pair of rightPairs) {
+    const count = counts.get(pair) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  }
+
+  return (2 * shared) / (leftPairs.length + rightPairs.length);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { cleanTrackTitle, normalizeChannelName, parseYouTubeTitle } from './titleParser';
+
+describe('cleanTrackTitle', () => {
+  it.each([
+    ['Song (Official Music Video)', 'Song'],
+    ['Song [4K] (Official Audio)', 'Song'],
+    ['Song (feat. Someone)', 'Song'],
+    ['Song ft. Someone', 'Song'],
+    ['Artist ft. Someone - Song', 'Artist - Song'],
+    ['Song - Official Video', 'Song'],
+    ['Song | Lyric Video', 'Song'],
+    ['Song Lyrics', 'Song'],
+    ['Song-HD', 'Song'],
+    ['Song HD HQ', 'Song'],
+    ['Song (Remastered 2011)', 'Song'],
+    ['Song 2011 Remaster', 'Song'],
+    ['Song 【MV】', 'Song'],
+    ['曲名 ［Official Video］', '曲名'],
+    ['曲名 （Lyric Video）', '曲名'],
+    // Decorations inside a word are part of the title
+    ['Wahd', 'Wahd'],
+    ['Hmv', 'Hmv'],
+    ['Ohm V', 'Ohm V'],
+    ['Seahq', 'Seahq'],
+    // Never stripped down to nothing
+    ['Lyrics', 'Lyrics'],
+    ['HD', 'HD'],
+    ['(Official Video)', '(Official Video)'],
+    // Brackets that aren't decoration stay
+    ['Song (Acoustic Version)', 'Song (Acoustic Version)'],
+    ['Song ［Demo］', 'Song ［Demo］'],
+  ])('%s -> %s', (input, expected) => {
+    expect(cleanTrackTitle(input)).toBe(expected);
+  });
+});
+
+describe('normalizeChannelName', () => {
+  it.each([
+    ['TaylorSwiftVEVO', 'Taylor Swift'],
+    ['Adele - Topic', 'Adele'],
+    ['Paul McCartney - Topic', 'Paul McCartney'],
+    ['LeAnn Rimes', 'LeAnn Rimes'],
+    ['deadmau5', 'deadmau5'],
+    ['Coldplay Official', 'Coldplay'],
+    ['VEVO', 'VEVO'],
+  ])('%s -> %s', (input, expected) => {
+    expect(normalizeChannelName(input)).toBe(expected);
+  });
+});
+
+describe('parseYouTubeTitle', () => {
+  it.each([
+    ['Adele - Hello (Official Music Video)', 'AdeleVEVO', { artist: 'Adele', title: 'Hello' }],
+    ['Hello', 'Adele - Topic', { artist: 'Adele', title: 'Hello' }],
+    ['Hello - Adele', 'AdeleVEVO', { artist: 'Adele', title: 'Hello' }],
+    ['Adele "Hello"', 'Some Channel', { artist: 'Adele', title: 'Hello' }],
+    ['Hello by Adele', 'Adele', { artist: 'Adele', title: 'Hello' }],
+    ['Drake ft. Rihanna - Take Care (Official Video)', 'DrakeVEVO', { artist: 'Drake', title: 'Take Care' }],
+    ['Take Care (feat. Rihanna)', 'Drake - Topic', { artist: 'Drake', title: 'Take Care' }],
+    ['Maybe I\'m Amazed', 'Paul McCartney - Topic', { artist: 'Paul McCartney', title: 'Maybe I\'m Amazed' }],
+    ['Wahd', 'Some Artist', { artist: 'Some Artist', title: 'Wahd' }],
+    ['Lyrics', 'Some Artist', { artist: 'Some Artist', title: 'Lyrics' }],
+    ['歌手 - 曲名 ［Official Video］', '歌手', { artist: '歌手', title: '曲名' }],
+  ])('%s by %s', (videoTitle, channelTitle, expected) => {
+    expect(parseYouTubeTitle(videoTitle, channelTitle)[0]).toMatchObject(expected);
+  });
+});
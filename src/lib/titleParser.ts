@@ -0,0 +1,147 @@
+// Splits YouTube video titles like "Artist - Song (Official Music Video) [4K]"
+// into artist/title pairs that Last.fm can match, and normalizes channel names
+// such as "ArtistVEVO" or "Artist - Topic".
+
+export interface SeedCandidate {
+  artist: string;
+  title: string;
+  // Higher is more likely; candidates are returned best first
+  score: number;
+}
+
+// Anything in brackets mentioning one of these is decoration, not title
+const DECORATION_PATTERN = new RegExp(
+  '\\b(' + [
+    'official',
+    'video',
+    'audio',
+    'lyrics?',
+    'visuali[sz]er',
+    'm/?v',
+    'hd',
+    'hq',
+    '[48]k',
+    'remaster(ed)?',
+    'explicit',
+    'clean',
+    'color coded',
+    'live',
+    'mono',
+    'stereo',
+  ].join('|') + ')\\b',
+  'i'
+);
+
+// Also fullwidth ［…］ and （…）, common on non-Latin uploads
+const BRACKETED_PATTERN = /\s*[([【「［（]([^)\]】」］）]*)[)\]】」］）]/g;
+
+// Same decorations when they trail the title without brackets. They have to
+// follow a space or separator, so "Wahd" keeps its "hd".
+const TRAILING_DECORATION_PATTERN =
+  /(?:^|\s*[-–—|]\s*|\s+)(official\s+(music\s+)?(video|audio|lyric video|visuali[sz]er|m\/?v)|m\/?v|lyric video|lyrics|visuali[sz]er|music video|hd|hq|4k|(\d{4}\s+)?remaster(ed)?(\s+\d{4})?(\s+version)?)\s*$/i;
+
+// Stops at an "Artist - Title" separator, so "Drake ft. Rihanna - Take Care"
+// keeps its title
+const FEATURING_PATTERN = /\s*[([]?\b(feat\.?|ft\.?|featuring)\s+(?:(?!\s+[-–—|~]\s+)[^)\]])*[)\]]?/i;
+
+const SEPARATOR_PATTERN = /\s+[-–—|~]\s+/;
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const stripQuotes = (value: string) => value.replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').trim();
+
+// Removes official video/audio, lyrics, HD, remaster and feat. noise
+export const cleanTrackTitle = (title: string): string => {
+  let cleaned = title.replace(BRACKETED_PATTERN, (match, inner: string) =>
+    DECORATION_PATTERN.test(inner) || FEATURING_PATTERN.test(inner) ? '' : match
+  );
+  cleaned = cleaned.replace(FEATURING_PATTERN, '');
+
+  let previous: string;
+  do {
+    previous = cleaned;
+    cleaned = cleaned.replace(TRAILING_DECORATION_PATTERN, '');
+  } while (cleaned !== previous);
+
+  // A song actually called "Lyrics" is better than no title at all
+  return collapseWhitespace(cleaned) || collapseWhitespace(title);
+};
+
+// "TaylorSwiftVEVO" -> "Taylor Swift", "Adele - Topic" -> "Adele". Only VEVO
+// channels run the name together, so "Paul McCartney" keeps its "Mc".
+export const normalizeChannelName = (channel: string): string => {
+  const isVevo = /.VEVO$/i.test(channel);
+  let normalized = channel
+    .replace(/\s*-\s*Topic$/i, '')
+    .replace(/VEVO$/i, '')
+    .replace(/\s*(official(\s+(channel|artist channel|music))?|music)$/i, '');
+  if (isVevo) normalized = normalized.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+  return collapseWhitespace(normalized) || channel;
+};
+
+const isTopicChannel = (channel: string) => /\s-\sTopic$/i.test(channel);
+
+const sameName = (a: string, b: string) =>
+  a.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '') === b.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Returns ranked (artist, title) guesses for a video, best first
+export const parseYouTubeTitle = (videoTitle: string, channelTitle: string): SeedCandidate[] => {
+  const channelArtist = normalizeChannelName(channelTitle);
+  const cleaned = cleanTrackTitle(videoTitle);
+  const candidates: SeedCandidate[] = [];
+
+  const add = (artist: string, title: string, score: number) => {
+    const candidate = {
+      // Artist names rarely contain brackets; they usually hold a translation
+      artist: stripQuotes(collapseWhitespace(artist.replace(BRACKETED_PATTERN, ''))),
+      title: stripQuotes(cleanTrackTitle(title)),
+      score,
+    };
+    if (candidate.artist && candidate.title) candidates.push(candidate);
+  };
+
+  // Auto-generated "Artist - Topic" channels title videos with just the song
+  if (isTopicChannel(channelTitle)) {
+    add(channelArtist, cleaned, 1);
+  }
+
+  const parts = cleaned.split(SEPARATOR_PATTERN);
+  if (parts.length >= 2) {
+    const [left, ...rest] = parts;
+    const right = rest.join(' - ');
+    const channelIsLeft = sameName(left, channelArtist);
+    const channelIsRight = sameName(right, channelArtist);
+
+    // "Artist - Title" is by far the most common layout
+    add(left, right, channelIsLeft ? 0.95 : channelIsRight ? 0.5 : 0.85);
+    add(right, left, channelIsRight ? 0.9 : 0.4);
+  }
+
+  // Artist "Title"
+  const quoted = cleaned.match(/^(.+?)\s+["“'‘](.+)["”'’]$/);
+  if (quoted) {
+    add(quoted[1], quoted[2], 0.8);
+  }
+
+  // Title by Artist
+  const byline = cleaned.match(/^(.+?)\s+by\s+(.+)$/i);
+  if (byline) {
+    add(byline[2], byline[1], sameName(byline[2], channelArtist) ? 0.9 : 0.6);
+  }
+
+  // No layout recognized: assume the channel is the artist
+  if (parts.length < 2) {
+    add(channelArtist, cleaned, 0.7);
+  }
+
+  // Keep the best-scored copy of each pair
+  const unique = new Map<string, SeedCandidate>();
+  for (const candidate of candidates) {
+    const key = `${candidate.artist.toLowerCase()}\u0000${candidate.title.toLowerCase()}`;
+    const existing = unique.get(key);
+    if (!existing || existing.score < candidate.score) unique.set(key, candidate);
+  }
+
+  return [...unique.values()].sort((a, b) => b.score - a.score);
+};
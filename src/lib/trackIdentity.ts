@@ -0,0 +1,57 @@
+import type { TrackRef } from './providers/types';
+import type { LastFmTrack } from './schemas';
+import { normalizeForComparison } from './similarity';
+import { cleanTrackTitle } from './titleParser';
+
+// Canonical identity for tracks coming from different Last.fm methods, so
+// "Song", "Song - Remastered 2011" and "Song (feat. X)" by the same artist
+// count as one song. MBIDs are used when Last.fm has them.
+
+export type TrackLike = Pick<LastFmTrack, 'name' | 'artist' | 'mbid'>;
+
+// Versions of the same recording or song that aren't worth recommending twice
+const VERSION_WORDS =
+  '(version|edit|(re)?mix|remaster(ed)?|live|acoustic|unplugged|demo|instrumental|mono|stereo|single|radio|extended|session|re-?recorded)';
+
+const BRACKETED_VERSION_PATTERN = new RegExp(`\\s*[([][^)\\]]*\\b${VERSION_WORDS}\\b[^)\\]]*[)\\]]`, 'gi');
+
+// "Song - Live at Wembley", "Song - 2011 Remaster", "Song - Radio Edit"
+const TRAILING_VERSION_PATTERN = new RegExp(`\\s+[-–—]\\s+[^-–—]*\\b${VERSION_WORDS}\\b.*$`, 'i');
+
+const ARTIST_FEATURING_PATTERN = /\s+(feat\.?|ft\.?|featuring)\s.*$/i;
+
+export const trackFromRef = (ref: TrackRef): TrackLike => ({ name: ref.title, artist: { name: ref.artist } });
+
+export const canonicalTitle = (title: string): string =>
+  normalizeForComparison(
+    cleanTrackTitle(title).replace(BRACKETED_VERSION_PATTERN, '').replace(TRAILING_VERSION_PATTERN, '')
+  );
+
+export const canonicalArtist = (artist: string): string =>
+  normalizeForComparison(artist.replace(ARTIST_FEATURING_PATTERN, ''));
+
+// Every key a track can be recognized by: its MBID if known, and its
+// normalized artist + title
+export const getIdentityKeys = (track: TrackLike): string[] => {
+  const keys = [`name:${canonicalArtist(track.artist.name)}\u0000${canonicalTitle(track.name)}`];
+  if (track.mbid) keys.push(`mbid:${track.mbid}`);
+  return keys;
+};
+
+export const isSameTrack = (a: TrackLike, b: TrackLike): boolean => {
+  const keys = new Set(getIdentityKeys(a));
+  return getIdentityKeys(b).some((key) => keys.has(key));
+};
+
+// Keeps the first occurrence of each song, dropping later duplicates and
+// anything matching `exclude` (such as the seed and its alternate versions)
+export const dedupeTracks = <T extends TrackLike>(tracks: T[], exclude: TrackLike[] = []): T[] => {
+  const seen = new Set(exclude.flatMap(getIdentityKeys));
+
+  return tracks.filter((track) => {
+    const keys = getIdentityKeys(track);
+    if (keys.some((key) => seen.has(key))) return false;
+    keys.forEach((key) => seen.add(key));
+    return true;
+  });
+};
@@ -0,0 +1,43 @@
+import { getLastFmTrackInfo, type SimilarTrack } from './api';
+import { mapWithConcurrency } from './concurrency';
+import { getDemoTrackStats } from './demo/catalog';
+import { isDemoMode } from './demoMode';
+import { isAbortError } from './errors';
+import { getIdentityKeys } from './trackIdentity';
+
+// Last.fm listener and play counts for recommendations, from track.getInfo.
+// Kept in memory once looked up so re-ranking doesn't ask again.
+
+export interface TrackStats {
+  listeners?: number;
+  playcount?: number;
+}
+
+const STATS_CONCURRENCY = 4;
+
+const statsCache = new Map<string, TrackStats>();
+
+const getKey = (track: SimilarTrack) => getIdentityKeys(track)[0];
+
+// Demo mode answers from the bundled catalog instead of Last.fm
+const lookupStats = async (track: SimilarTrack, signal?: AbortSignal): Promise<TrackStats> => {
+  if (isDemoMode()) return getDemoTrackStats(track.name, track.artist.name);
+  const info = await getLastFmTrackInfo(track.name, track.artist.name, signal);
+  return { listeners: info?.listeners, playcount: info?.playcount };
+};
+
+// Looks up every track not seen before. A failed lookup leaves the counts
+// unknown rather than failing the analysis.
+export const loadTrackStats = async (tracks: SimilarTrack[], signal?: AbortSignal): Promise<void> => {
+  const missing = tracks.filter((track) => !statsCache.has(getKey(track)));
+  await mapWithConcurrency(missing, STATS_CONCURRENCY, async (track) => {
+    try {
+      statsCache.set(getKey(track), await lookupStats(track, signal));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error loading track stats:', error);
+    }
+  });
+};
+
+export const getTrackStats = (track: SimilarTrack): TrackStats => statsCache.get(getKey(track)) ?? {};
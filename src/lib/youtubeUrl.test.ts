@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getVideoId, isYouTubeUrl, parseYouTubeUrl, type YouTubeUrl } from './youtubeUrl';
+
+const VIDEO = 'fJ9rUzIMcZQ';
+const PLAYLIST = 'PLx0sYbC';
+
+const cases: Array<[input: string, expected: YouTubeUrl | null]> = [
+  ['https://www.youtube.com/watch?v=fJ9rUzIMcZQ', { kind: 'video', videoId: VIDEO }],
+  ['youtube.com/watch?feature=share&v=fJ9rUzIMcZQ', { kind: 'video', videoId: VIDEO }],
+  ['https://m.youtube.com/watch?v=fJ9rUzIMcZQ&t=1m5s', { kind: 'video', videoId: VIDEO, startSeconds: 65 }],
+  ['https://music.youtube.com/watch?v=fJ9rUzIMcZQ&si=abc', { kind: 'video', videoId: VIDEO }],
+  ['https://youtu.be/fJ9rUzIMcZQ?si=Xy12&t=42', { kind: 'video', videoId: VIDEO, startSeconds: 42 }],
+  ['https://youtu.be/fJ9rUzIMcZQ#t=1h2m3s', { kind: 'video', videoId: VIDEO, startSeconds: 3723 }],
+  ['https://www.youtube.com/shorts/fJ9rUzIMcZQ?feature=share', { kind: 'video', videoId: VIDEO }],
+  ['https://www.youtube.com/live/fJ9rUzIMcZQ?si=abc', { kind: 'video', videoId: VIDEO }],
+  ['https://www.youtube.com/embed/fJ9rUzIMcZQ?start=30', { kind: 'video', videoId: VIDEO, startSeconds: 30 }],
+  ['https://www.youtube-nocookie.com/embed/fJ9rUzIMcZQ', { kind: 'video', videoId: VIDEO }],
+  ['https://www.youtube.com/v/fJ9rUzIMcZQ', { kind: 'video', videoId: VIDEO }],
+  ['  fJ9rUzIMcZQ  ', { kind: 'video', videoId: VIDEO }],
+  [
+    'https://www.youtube.com/watch?v=fJ9rUzIMcZQ&list=PLx0sYbC',
+    { kind: 'video-in-playlist', videoId: VIDEO, playlistId: PLAYLIST },
+  ],
+  [
+    'https://youtu.be/fJ9rUzIMcZQ?list=PLx0sYbC&t=10',
+    { kind: 'video-in-playlist', videoId: VIDEO, playlistId: PLAYLIST, startSeconds: 10 },
+  ],
+  ['https://music.youtube.com/playlist?list=PLx0sYbC', { kind: 'playlist', playlistId: PLAYLIST }],
+  ['https://www.youtube.com/embed/videoseries?list=PLx0sYbC', { kind: 'playlist', playlistId: PLAYLIST }],
+  // Not 11 characters
+  ['https://www.youtube.com/watch?v=abc', null],
+  ['https://www.youtube.com/watch?v=abc&list=PLx0sYbC', null],
+  ['https://www.youtube.com/channel/UC123', null],
+  ['https://www.youtube.com/', null],
+  ['https://vimeo.com/12345678', null],
+  ['https://notyoutube.com/watch?v=fJ9rUzIMcZQ', null],
+  ['not a url at all', null],
+  ['', null],
+];
+
+describe('parseYouTubeUrl', () => {
+  it.each(cases)('%s', (input, expected) => {
+    expect(parseYouTubeUrl(input)).toEqual(expected);
+  });
+});
+
+describe('isYouTubeUrl', () => {
+  it.each(cases)('%s', (input, expected) => {
+    expect(isYouTubeUrl(input)).toBe(expected !== null);
+  });
+});
+
+describe('getVideoId', () => {
+  it('returns the video of video and video-in-playlist URLs', () => {
+    expect(getVideoId('https://youtu.be/fJ9rUzIMcZQ')).toBe(VIDEO);
+    expect(getVideoId('https://www.youtube.com/watch?v=fJ9rUzIMcZQ&list=PLx0sYbC')).toBe(VIDEO);
+  });
+
+  it('returns null for playlist-only and invalid URLs', () => {
+    expect(getVideoId('https://www.youtube.com/playlist?list=PLx0sYbC')).toBeNull();
+    expect(getVideoId('https://vimeo.com/12345678')).toBeNull();
+  });
+});
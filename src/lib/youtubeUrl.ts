@@ -0,0 +1,83 @@
+// Parses whatever people paste into the search box: watch links from any
+// YouTube host, short links, Shorts, live streams, embeds, playlists and bare
+// video ids. The one place that decides what counts as a YouTube URL; the
+// accepted shapes are listed in youtubeUrl.test.ts.
+
+export type YouTubeUrl =
+  | { kind: 'video'; videoId: string; startSeconds?: number }
+  | { kind: 'playlist'; playlistId: string }
+  | { kind: 'video-in-playlist'; videoId: string; playlistId: string; startSeconds?: number };
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]{2,}$/;
+
+const YOUTUBE_HOSTS = ['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com'];
+
+// Paths whose next segment is the video id
+const VIDEO_PATH_PREFIXES = ['shorts', 'live', 'embed', 'v', 'e'];
+
+const toHost = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+// Accepts "42", "42s", "1m5s" and "1h2m3s"
+const parseStartTime = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value) || undefined;
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i);
+  if (!match || !match[0]) return undefined;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) || undefined;
+};
+
+const toResult = (videoId: string | null, playlistId: string | null, startSeconds?: number): YouTubeUrl | null => {
+  const video = videoId && VIDEO_ID_PATTERN.test(videoId) ? videoId : null;
+  const playlist = playlistId && PLAYLIST_ID_PATTERN.test(playlistId) ? playlistId : null;
+
+  if (video && playlist) return { kind: 'video-in-playlist', videoId: video, playlistId: playlist, startSeconds };
+  if (video) return { kind: 'video', videoId: video, startSeconds };
+  if (playlist && !videoId) return { kind: 'playlist', playlistId: playlist };
+  return null;
+};
+
+export const parseYouTubeUrl = (input: string): YouTubeUrl | null => {
+  const trimmed = input.trim();
+  if (VIDEO_ID_PATTERN.test(trimmed)) return { kind: 'video', videoId: trimmed };
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+
+  const host = toHost(url.hostname);
+  const params = url.searchParams;
+  // Timestamps also come as a #t=... fragment
+  const startSeconds =
+    parseStartTime(params.get('t')) ??
+    parseStartTime(params.get('start')) ??
+    parseStartTime(new URLSearchParams(url.hash.slice(1)).get('t'));
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'youtu.be') {
+    return toResult(segments[0] ?? null, params.get('list'), startSeconds);
+  }
+  if (!YOUTUBE_HOSTS.includes(host)) return null;
+
+  if (segments[0] === 'watch') return toResult(params.get('v'), params.get('list'), startSeconds);
+  if (segments[0] === 'playlist') return toResult(null, params.get('list'));
+  // Embedded playlists use the placeholder id "videoseries"
+  if (segments[0] === 'embed' && segments[1] === 'videoseries') return toResult(null, params.get('list'));
+  if (VIDEO_PATH_PREFIXES.includes(segments[0]) && segments[1]) {
+    return toResult(segments[1], params.get('list'), startSeconds);
+  }
+  return null;
+};
+
+export const isYouTubeUrl = (input: string): boolean => parseYouTubeUrl(input) !== null;
+
+// The video a URL points at, if any; playlist-only URLs have none
+export const getVideoId = (input: string): string | null => {
+  const parsed = parseYouTubeUrl(input);
+  return parsed && parsed.kind !== 'playlist' ? parsed.videoId : null;
+};
@@ -0,0 +1,89 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ApiKeyForm } from "@/components/ApiKeyForm";
+import { CacheSettings } from "@/components/CacheSettings";
+import { DemoModeSettings } from "@/components/DemoModeSettings";
+import { QuotaBadge } from "@/components/QuotaBadge";
+import { SavedPlaylists } from "@/components/SavedPlaylists";
+import { PopularitySettings } from "@/components/PopularitySettings";
+import { ArrowLeft, Gem, KeyRound, Settings as SettingsIcon } from "lucide-react";
+import { useApiKeys } from "@/hooks/use-api-keys";
+
+const Settings = () => {
+  const { state } = useApiKeys();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-12 max-w-2xl space-y-6">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Song Lens
+        </Link>
+        <h1 className="text-4xl font-bold gradient-text flex items-center gap-3">
+          <SettingsIcon className="w-8 h-8 text-primary" />
+          Settings
+        </h1>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-primary" />
+              API keys
+            </CardTitle>
+            <CardDescription>
+              {state === 'locked'
+                ? "Your saved keys are locked. Reload the app to unlock them, or save new keys to replace them."
+                : "Use your own YouTube and Last.fm keys instead of the server's. They're stored in this browser only."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ApiKeyForm />
+            <QuotaBadge />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gem className="w-5 h-5 text-primary" />
+              Hidden gems
+            </CardTitle>
+            <CardDescription>
+              Last.fm listener counts that make a recommendation a hidden gem or a hit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PopularitySettings />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Saved playlists</CardTitle>
+            <CardDescription>
+              Discovery trails you saved, kept in this browser.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SavedPlaylists />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Data</CardTitle>
+            <CardDescription>
+              Lookups are cached in your browser so repeat analyses load instantly.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <CacheSettings />
+            <DemoModeSettings />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;